@@ -0,0 +1,95 @@
+import { Option, Some, retypeNone } from "./index"
+import { labelNone } from "./diagnostics"
+import { AsyncOption, Awaitable, toAsyncOption } from "./asyncOption"
+
+/**
+ * Lazy operators over `AsyncIterable` sources of `Option` values, like streams or paginated APIs,
+ * exported as the `asyncIter` namespace. Items are only pulled from the source as the result is iterated,
+ * so nothing is buffered ahead of a slow consumer, and a source stopped early is closed with `return()`:
+ *
+ * @example
+ * for await (const record of asyncIter.filterMap(lines, parseRecord)) { ... }
+ * const header = await asyncIter.firstSome(asyncIter.filterMap(lines, parseHeader))
+ */
+
+/**
+ * Maps each item to an `Option` and yields the values of the `Some` results, dropping the `None` results.
+ *
+ * @param source - The items to map.
+ * @param fn - The function mapping each item to an `Option`. May return a promise of one.
+ * @returns A lazy async iterator of the values of the `Some` results.
+ */
+export async function* filterMap<T, U>(source: AsyncIterable<T>, fn: (item: T, index: number) => Awaitable<Option<U>>): AsyncIterableIterator<U> {
+    let index = 0
+
+    for await (const item of source) {
+        const option = await fn(item, index++)
+        if (option.isSome) {
+            yield option.value
+        }
+    }
+}
+
+/**
+ * Yields the values of the `Some` values, dropping the `None` values.
+ *
+ * @param source - The `Option` values to iterate.
+ * @returns A lazy async iterator of the values of the `Some` values.
+ */
+export function somes<T>(source: AsyncIterable<Option<T>>): AsyncIterableIterator<T> {
+    return filterMap(source, option => option)
+}
+
+/**
+ * Yields the values of the `Some` values up to the first `None`, then closes the source.
+ *
+ * @param source - The `Option` values to iterate.
+ * @returns A lazy async iterator of the values of the leading `Some` values.
+ */
+export async function* takeWhileSome<T>(source: AsyncIterable<Option<T>>): AsyncIterableIterator<T> {
+    for await (const option of source) {
+        if (option.isNone) {
+            return
+        }
+        yield option.value
+    }
+}
+
+/**
+ * Resolves to the first `Some` value, then closes the source without pulling further items.
+ *
+ * @param source - The `Option` values to search.
+ * @returns An `AsyncOption` of the first `Some` value, or of `None` if there is none.
+ */
+export function firstSome<T>(source: AsyncIterable<Option<T>>): AsyncOption<T> {
+    return toAsyncOption((async (): Promise<Option<T>> => {
+        for await (const option of source) {
+            if (option.isSome) {
+                return option
+            }
+        }
+
+        return labelNone('asyncIter.firstSome: no item was Some')
+    })())
+}
+
+/**
+ * Collects the values of the `Some` values, stopping at the first `None` and closing the source.
+ *
+ * @param source - The `Option` values to collect.
+ * @returns An `AsyncOption` of the values if every item is `Some`, otherwise of the first `None`.
+ */
+export function collectAll<T>(source: AsyncIterable<Option<T>>): AsyncOption<T[]> {
+    return toAsyncOption((async () => {
+        const values: T[] = []
+
+        for await (const option of source) {
+            if (option.isNone) {
+                return retypeNone<T[]>(option)
+            }
+            values.push(option.value)
+        }
+
+        return Some(values)
+    })())
+}
@@ -0,0 +1,138 @@
+import { Option, Some, retypeNone } from "./index"
+import { labelNone } from "./diagnostics"
+
+/**
+ * A value or a promise-like resolving to it.
+ * @typeparam T The type of the value.
+ */
+export type Awaitable<T> = T | PromiseLike<T>
+
+/**
+ * Represents an `Option` that will be available in the future.
+ * It is a thenable wrapper over `Promise<Option<T>>`, so it can be chained without intermediate awaits
+ * and `await`ed back into a plain `Option<T>`.
+ * @typeparam T The type of the wrapped value.
+ */
+export type AsyncOption<T> = PromiseLike<Option<T>> & {
+    /**
+     * Applies the provided callbacks to the eventual value of this `AsyncOption`
+     * depending on its contents and resolves to the result of the called function.
+     *
+     * @typeparam U The type of the value returned by the callbacks.
+     * @param some - The callback to apply if this `AsyncOption` resolves to `Some`, and will be passed the value.
+     * @param none - The callback to apply if this `AsyncOption` resolves to `None`.
+     * @returns A promise of the result of either `some(value)` or `none()`.
+     */
+    readonly match: <U>(some: (value: T) => Awaitable<U>, none: () => Awaitable<U>) => Promise<U>
+
+    /**
+     * Resolves to the value of this `AsyncOption` if it is `Some`, otherwise
+     * resolves to the provided `defaultValue`.
+     *
+     * @param defaultValue - The default value to resolve to if this `AsyncOption` is `None`.
+     * @returns A promise of the value if it is `Some`, otherwise of `defaultValue`.
+     */
+    getValueOrDefault(defaultValue: T): Promise<T>
+
+    /**
+     * Resolves to the value of this `AsyncOption` if it is `Some`, or computes a value using the
+     * provided function if it is `None`.
+     *
+     * @param computeFn - The function to compute a value if this `AsyncOption` is `None`.
+     * @returns A promise of the value if it is `Some`, otherwise of the result of `computeFn()`.
+     */
+    getValueOrCompute(computeFn: () => Awaitable<T>): Promise<T>
+
+    /**
+     * Applies a function to the eventual value of this `AsyncOption` if it is `Some`, and wraps the result in `Some`.
+     *
+     * @typeparam U The type of the mapped value.
+     * @param fn - The function to apply to the value if it is `Some`. May return a promise.
+     * @returns a new `AsyncOption` with the result of applying `fn` if it is `Some`, otherwise `None`.
+     */
+    readonly map: <U>(fn: (value: T) => Awaitable<U>) => AsyncOption<U>
+
+    /**
+     * Returns the result of calling the provided function if this `AsyncOption` is `Some`, otherwise `None`.
+     *
+     * @typeparam U The type of the value of the returned `Option`.
+     * @param fn - The function to call if this `AsyncOption` is `Some`. May return an `Option`, a promise of one or an `AsyncOption`.
+     * @returns a new `AsyncOption` with the result of calling `fn` if it is `Some`, otherwise `None`.
+     */
+    readonly andThen: <U>(fn: (value: T) => Awaitable<Option<U>>) => AsyncOption<U>
+
+    /**
+     * Returns `this` if it is `Some`, otherwise the result of calling the provided function.
+     *
+     * @param fn - The function to call if this `AsyncOption` is `None`. May return an `Option`, a promise of one or an `AsyncOption`.
+     * @returns a new `AsyncOption` resolving to the `Some` value or to the result of calling `fn`.
+     */
+    orElse(fn: () => Awaitable<Option<T>>): AsyncOption<T>
+
+    /**
+     * Returns `this` if the eventual value satisfies the provided predicate, otherwise `None`.
+     *
+     * @param fn - The predicate function to apply to the value. May return a promise.
+     * @returns a new `AsyncOption` resolving to the value if it satisfies the predicate, otherwise `None`.
+     */
+    readonly filter: (fn: (value: T) => Awaitable<boolean>) => AsyncOption<T>
+
+    /**
+     * Returns a promise resolving to the plain `Option<T>`. Equivalent to `await`ing this `AsyncOption`.
+     * @returns A promise of the wrapped `Option`.
+     */
+    readonly toPromise: () => Promise<Option<T>>
+}
+
+/**
+ * Creates an `AsyncOption` from an `Option` or from a promise-like resolving to one.
+ *
+ * @param source - The `Option` or promise-like of an `Option` to wrap.
+ * @returns An `AsyncOption` resolving to the wrapped `Option`.
+ */
+export function toAsyncOption<T>(source: Awaitable<Option<T>>): AsyncOption<T> {
+    const promise = resolve(source)
+
+    return {
+        then(onfulfilled, onrejected) {
+            return promise.then(onfulfilled, onrejected)
+        },
+        match(some, none) {
+            return promise.then(option => option.match(
+                value => resolve(some(value)),
+                () => resolve(none())
+            ))
+        },
+        getValueOrDefault(defaultValue) {
+            return promise.then(option => option.getValueOrDefault(defaultValue))
+        },
+        getValueOrCompute(computeFn) {
+            return promise.then(option => option.isSome ? option.value : computeFn())
+        },
+        map(fn) {
+            return toAsyncOption(promise.then(option => option.isSome
+                ? resolve(fn(option.value)).then(mapped => Some(mapped))
+                : retypeNone(option)))
+        },
+        andThen(fn) {
+            return toAsyncOption(promise.then(option => option.isSome
+                ? resolve(fn(option.value))
+                : retypeNone(option)))
+        },
+        orElse(fn) {
+            return toAsyncOption(promise.then(option => option.isSome ? option : fn()))
+        },
+        filter(fn) {
+            return toAsyncOption(promise.then(option => option.isSome
+                ? resolve(fn(option.value)).then(keep => keep ? option : labelNone('filter: predicate returned false'))
+                : option))
+        },
+        toPromise() {
+            return promise
+        }
+    }
+}
+
+function resolve<T>(value: Awaitable<T>): Promise<T> {
+    return Promise.resolve(value) as Promise<T>
+}
@@ -0,0 +1,75 @@
+import { Option, SomeOption, OptionMethods, MatchArms, None, Ok } from "../index"
+import { toAsyncOption } from "../asyncOption"
+
+/**
+ * The closure based `Some` implementation used before `Some` moved to a shared prototype,
+ * kept as the baseline the benchmarks compare against. It has the methods `Option` had at the time of the move,
+ * so methods added since are missing from it.
+ */
+export function closureSome<T>(value: T): Option<T> {
+    const some: Omit<SomeOption<T>, Exclude<keyof OptionMethods<T>, BaselineMethods>> = {
+        value,
+        match<U>(some: ((value: T) => U) | MatchArms<T, U>, _?: () => U): U {
+            return typeof some === 'function' ? some(value) : some.Some(value)
+        },
+        getValueOrDefault(_) {
+            return value
+        },
+        getValueOrCompute(_) {
+            return value
+        },
+        mapOrDefault(map, _) {
+            return map(value)
+        },
+        mapOrCompute(map, _) {
+            return map(value)
+        },
+        map(fn) {
+            return closureSome(fn(value))
+        },
+        and(option) {
+            return option
+        },
+        andThen(fn) {
+            return fn(value)
+        },
+        or(_) {
+            return self
+        },
+        orElse(_) {
+            return self
+        },
+        filter(fn) {
+            return fn(value)
+                ? self
+                : None
+        },
+        okOr(_) {
+            return Ok(value)
+        },
+        okOrElse(_) {
+            return Ok(value)
+        },
+        transpose() {
+            throw new Error('Not used in benchmarks')
+        },
+        toAsync() {
+            return toAsyncOption(self)
+        },
+        toJSON() {
+            return { $option: 'some', value }
+        },
+        *[Symbol.iterator]() {
+            return value
+        },
+        isNone: false,
+        isSome: true
+    }
+
+    const self = some as Option<T>
+    return self
+}
+
+type BaselineMethods = 'match' | 'getValueOrDefault' | 'getValueOrCompute' | 'mapOrDefault' | 'mapOrCompute' | 'map'
+    | 'and' | 'andThen' | 'or' | 'orElse' | 'filter' | 'okOr' | 'okOrElse' | 'transpose' | 'toAsync' | 'toJSON'
+    | typeof Symbol.iterator
@@ -0,0 +1,101 @@
+import { Option, Some, None } from "../index"
+import { closureSome } from "./closureSome"
+
+/**
+ * Compares the prototype based `Some` against the closure based baseline.
+ * Run with `npm run bench` - it needs `--expose-gc` to measure retained memory.
+ */
+
+type SomeFactory = <T>(value: T) => Option<T>
+
+const implementations: Record<string, SomeFactory> = {
+    'closure (baseline)': closureSome,
+    'prototype': Some
+}
+
+const ITERATIONS = 1_000_000
+    , RUNS = 5
+    , RETAINED = 100_000
+
+const lookup = new Map<number, number>()
+for (let i = 0; i < 1000; i += 2) {
+    lookup.set(i, i)
+}
+
+const scenarios: Record<string, (some: SomeFactory, i: number) => number> = {
+    'create + getValueOrDefault': (some, i) =>
+        some(i).getValueOrDefault(0),
+    'map -> filter -> getValueOrDefault': (some, i) =>
+        some(i).map(x => x + 1).filter(x => (x & 1) === 0).getValueOrDefault(0),
+    'andThen -> andThen -> mapOrDefault': (some, i) =>
+        some(i).andThen(x => some(x * 2)).andThen(x => x > 10 ? some(x) : None).mapOrDefault(x => x + 1, 0),
+    'map lookup -> match': (some, i) => {
+        const value = lookup.get(i % 1000)
+        return (value === undefined ? None as Option<number> : some(value)).match(x => x, () => -1)
+    }
+}
+
+function gc() {
+    const collect = (globalThis as { gc?: () => void }).gc
+    if (!collect) {
+        throw new Error('Run with node --expose-gc')
+    }
+    collect()
+}
+
+function opsPerSecond(scenario: (some: SomeFactory, i: number) => number, some: SomeFactory): number {
+    let best = Infinity
+        , sink = 0
+
+    for (let run = 0; run < RUNS; run++) {
+        const start = performance.now()
+        for (let i = 0; i < ITERATIONS; i++) {
+            sink += scenario(some, i)
+        }
+        best = Math.min(best, performance.now() - start)
+    }
+
+    if (sink === Number.MIN_SAFE_INTEGER) {
+        console.log(sink)
+    }
+
+    return Math.round(ITERATIONS / (best / 1000))
+}
+
+function retainedBytes(create: (i: number) => unknown): number {
+    const retained: unknown[] = new Array(RETAINED)
+
+    gc()
+    const before = process.memoryUsage().heapUsed
+    for (let i = 0; i < RETAINED; i++) {
+        retained[i] = create(i)
+    }
+    gc()
+    const after = process.memoryUsage().heapUsed
+
+    return Math.round((after - before) / retained.length)
+}
+
+const throughput: Record<string, Record<string, string>> = {}
+for (const scenario of Object.keys(scenarios)) {
+    throughput[scenario] = {}
+    for (const name of Object.keys(implementations)) {
+        const ops = opsPerSecond(scenarios[scenario]!, implementations[name]!)
+        throughput[scenario]![name] = `${(ops / 1e6).toFixed(2)}M ops/s`
+    }
+}
+
+const memory: Record<string, Record<string, string>> = {
+    'Some(i)': {},
+    'Some(i).map(f).map(f)': {}
+}
+for (const name of Object.keys(implementations)) {
+    const some = implementations[name]!
+    memory['Some(i)']![name] = `${retainedBytes(i => some(i))} B`
+    memory['Some(i).map(f).map(f)']![name] = `${retainedBytes(i => some(i).map(x => x + 1).map(x => x * 2))} B`
+}
+
+console.log(`Node ${process.version}, ${ITERATIONS} iterations, best of ${RUNS} runs`)
+console.table(throughput)
+console.log(`Retained heap per result, averaged over ${RETAINED} results`)
+console.table(memory)
@@ -0,0 +1,5 @@
+/**
+ * Marks the `Option` values of every copy of the library. It is registered with `Symbol.for`,
+ * so Options created by another copy, e.g. a duplicate in `node_modules`, are still recognized by `isOption`.
+ */
+export const optionBrand = Symbol.for('ts-option-type/option')
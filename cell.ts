@@ -0,0 +1,100 @@
+import { Option, Some, None } from "./index"
+
+/**
+ * A mutable holder of an `Option`, modelled on Rust's methods taking `&mut Option<T>`.
+ * @typeparam T The type of the held value.
+ */
+export class OptionCell<T> {
+    private option: Option<T>
+
+    /**
+     * @param option - The initial `Option`, defaults to `None`.
+     */
+    constructor(option: Option<T> = None) {
+        this.option = option
+    }
+
+    /**
+     * Returns the held `Option`.
+     * @returns The held `Option`.
+     */
+    get(): Option<T> {
+        return this.option
+    }
+
+    /**
+     * Replaces the held `Option`.
+     *
+     * @param option - The `Option` to hold.
+     */
+    set(option: Option<T>): void {
+        this.option = option
+    }
+
+    /**
+     * Takes the held `Option`, leaving `None` in its place.
+     * @returns The previously held `Option`.
+     */
+    take(): Option<T> {
+        const taken = this.option
+        this.option = None
+        return taken
+    }
+
+    /**
+     * Takes the held `Option` if it is `Some` and its value satisfies the provided predicate, leaving `None` in its place.
+     *
+     * @param fn - The predicate function to apply to the value.
+     * @returns The previously held `Option` if its value satisfies the predicate, otherwise `None`.
+     */
+    takeIf(fn: (value: T) => boolean): Option<T> {
+        return this.option.isSomeAnd(fn)
+            ? this.take()
+            : None
+    }
+
+    /**
+     * Holds `Some` wrapping the provided value, returning the previously held `Option`.
+     *
+     * @param value - The value to hold.
+     * @returns The previously held `Option`.
+     */
+    replace(value: T): Option<T> {
+        const replaced = this.option
+        this.option = Some(value)
+        return replaced
+    }
+
+    /**
+     * Holds `Some` wrapping the provided value, discarding the previously held `Option`.
+     *
+     * @param value - The value to hold.
+     * @returns The provided value.
+     */
+    insert(value: T): T {
+        this.option = Some(value)
+        return value
+    }
+
+    /**
+     * Returns the held value, holding the provided value first if the held `Option` is `None`.
+     *
+     * @param value - The value to hold if the held `Option` is `None`.
+     * @returns The held value.
+     */
+    getOrInsert(value: T): T {
+        return this.getOrInsertWith(() => value)
+    }
+
+    /**
+     * Returns the held value, holding the result of the provided function first if the held `Option` is `None`.
+     *
+     * @param fn - The function computing the value to hold if the held `Option` is `None`.
+     * @returns The held value.
+     */
+    getOrInsertWith(fn: () => T): T {
+        return this.option.isSome
+            ? this.option.value
+            : this.insert(fn())
+    }
+}
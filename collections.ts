@@ -0,0 +1,183 @@
+import { Option, Some, retypeNone } from "./index"
+import { labelNone } from "./diagnostics"
+
+/**
+ * Maps a tuple or array of `Option` types to a tuple or array of their value types.
+ * @typeparam T The tuple or array of `Option` types.
+ */
+export type OptionValues<T extends readonly Option<any>[]> = {
+    -readonly [K in keyof T]: T[K] extends Option<infer V> ? V : never
+}
+
+/**
+ * Maps a record of `Option` types to a record of their value types.
+ * @typeparam R The record of `Option` types.
+ */
+export type OptionRecordValues<R extends Record<string, Option<any>>> = {
+    -readonly [K in keyof R]: R[K] extends Option<infer V> ? V : never
+}
+
+/**
+ * Combines `Option` values into a single `Option` of all their values.
+ * Returns `None` as soon as one of the values is `None`.
+ * Tuples keep their precise type, e.g. `all([a, b])` returns `Option<[A, B]>`.
+ *
+ * @param options - The `Option` values to combine.
+ * @returns `Some` wrapping an array of all the values if all are `Some`, otherwise `None`.
+ */
+export function all<T extends readonly Option<any>[] | []>(options: T): Option<OptionValues<T>>
+export function all<T>(options: Iterable<Option<T>>): Option<T[]>
+export function all<T>(options: Iterable<Option<T>>): Option<T[]> {
+    return traverse(options, option => option)
+}
+
+/**
+ * Combines an iterable of `Option` values into a single `Option` of an array of their values.
+ * Alias of `all` for iterables.
+ *
+ * @param options - The `Option` values to combine.
+ * @returns `Some` wrapping an array of all the values if all are `Some`, otherwise `None`.
+ */
+export function sequence<T>(options: Iterable<Option<T>>): Option<T[]> {
+    return all(options)
+}
+
+/**
+ * Applies an `Option` returning function to each item and combines the results into a single `Option`.
+ * Stops iterating as soon as the function returns `None`.
+ *
+ * @param items - The items to apply the function to.
+ * @param fn - The function to apply, and will be passed the item and its index.
+ * @returns `Some` wrapping an array of all the results if all are `Some`, otherwise `None`.
+ */
+export function traverse<T, U>(items: Iterable<T>, fn: (item: T, index: number) => Option<U>): Option<U[]> {
+    const values: U[] = []
+    let index = 0
+
+    for (const item of items) {
+        const option = fn(item, index++)
+        if (option.isNone) {
+            return retypeNone(option)
+        }
+        values.push(option.value)
+    }
+
+    return Some(values)
+}
+
+/**
+ * Collects the values of all `Some` values, dropping `None` values.
+ *
+ * @param options - The `Option` values to collect.
+ * @returns An array of the values of all `Some` values.
+ */
+export function compact<T>(options: Iterable<Option<T>>): T[] {
+    const values: T[] = []
+
+    for (const option of options) {
+        if (option.isSome) {
+            values.push(option.value)
+        }
+    }
+
+    return values
+}
+
+/**
+ * Collects the values of all `Some` values, dropping `None` values.
+ * Alias of `compact`.
+ *
+ * @param options - The `Option` values to collect.
+ * @returns An array of the values of all `Some` values.
+ */
+export function somes<T>(options: Iterable<Option<T>>): T[] {
+    return compact(options)
+}
+
+/**
+ * Returns the first `Some` value. Stops iterating as soon as one is found.
+ *
+ * @param options - The `Option` values to search.
+ * @returns The first `Some` value, or `None` if there is none.
+ */
+export function firstSome<T>(options: Iterable<Option<T>>): Option<T> {
+    for (const option of options) {
+        if (option.isSome) {
+            return option
+        }
+    }
+
+    return labelNone('firstSome: no Option was Some')
+}
+
+/**
+ * Returns the first `Some` value. Stops iterating as soon as one is found.
+ * Alias of `firstSome`.
+ *
+ * @param options - The `Option` values to search.
+ * @returns The first `Some` value, or `None` if there is none.
+ */
+export function any<T>(options: Iterable<Option<T>>): Option<T> {
+    return firstSome(options)
+}
+
+/**
+ * Splits `Option` values into the values of the `Some` values and the number of `None` values.
+ *
+ * @param options - The `Option` values to split.
+ * @returns The values of all `Some` values and the count of `None` values.
+ */
+export function partition<T>(options: Iterable<Option<T>>): { somes: T[], noneCount: number } {
+    const values: T[] = []
+    let noneCount = 0
+
+    for (const option of options) {
+        if (option.isSome) {
+            values.push(option.value)
+        } else {
+            noneCount++
+        }
+    }
+
+    return { somes: values, noneCount }
+}
+
+/**
+ * Combines a record of `Option` values into a single `Option` of a record of their values.
+ * Returns `None` as soon as one of the values is `None`.
+ *
+ * @param record - The record of `Option` values to combine.
+ * @returns `Some` wrapping a record of all the values if all are `Some`, otherwise `None`.
+ */
+export function allRecord<R extends Record<string, Option<any>>>(record: R): Option<OptionRecordValues<R>> {
+    const values: Record<string, unknown> = {}
+
+    for (const key of Object.keys(record)) {
+        const option = record[key] as Option<unknown>
+        if (option.isNone) {
+            return retypeNone(option)
+        }
+        values[key] = option.value
+    }
+
+    return Some(values as OptionRecordValues<R>)
+}
+
+/**
+ * Collects the values of the `Some` values of a record, dropping the keys of `None` values.
+ *
+ * @param record - The record of `Option` values to collect.
+ * @returns A record of the values of all `Some` values.
+ */
+export function compactRecord<R extends Record<string, Option<any>>>(record: R): Partial<OptionRecordValues<R>> {
+    const values: Record<string, unknown> = {}
+
+    for (const key of Object.keys(record)) {
+        const option = record[key] as Option<unknown>
+        if (option.isSome) {
+            values[key] = option.value
+        }
+    }
+
+    return values as Partial<OptionRecordValues<R>>
+}
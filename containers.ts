@@ -0,0 +1,264 @@
+import { Option, Some } from "./index"
+import { labelNone } from "./diagnostics"
+import { at, find, mapGet } from "./safe"
+
+/**
+ * A `Map` whose lookups and updates return `Option` values, modelled on Rust's `HashMap`.
+ * Unlike `fromValue(map.get(key))`, a stored `undefined` is `Some`.
+ * @typeparam K The type of the keys.
+ * @typeparam V The type of the values.
+ */
+export class OptionMap<K, V> implements Iterable<[K, V]> {
+    private readonly map: Map<K, V>
+
+    /**
+     * @param entries - The initial entries.
+     */
+    constructor(entries?: Iterable<readonly [K, V]>) {
+        this.map = new Map(entries || [])
+    }
+
+    /**
+     * The number of entries.
+     */
+    get size(): number {
+        return this.map.size
+    }
+
+    /**
+     * Returns the value stored for the key.
+     *
+     * @param key - The key to look up.
+     * @returns `Some` wrapping the stored value, or `None` if there is no entry for the key.
+     */
+    get(key: K): Option<V> {
+        return mapGet(this.map, key)
+    }
+
+    /**
+     * Returns `true` if there is an entry for the key.
+     *
+     * @param key - The key to look up.
+     */
+    has(key: K): boolean {
+        return this.map.has(key)
+    }
+
+    /**
+     * Stores the value for the key, like Rust's `HashMap::insert`.
+     *
+     * @param key - The key to store the value for.
+     * @param value - The value to store.
+     * @returns `Some` wrapping the value previously stored for the key, or `None` if there was no entry.
+     */
+    set(key: K, value: V): Option<V> {
+        const previous = this.get(key)
+        this.map.set(key, value)
+        return previous
+    }
+
+    /**
+     * Removes the entry for the key, like Rust's `HashMap::remove`.
+     *
+     * @param key - The key to remove.
+     * @returns `Some` wrapping the removed value, or `None` if there was no entry.
+     */
+    delete(key: K): Option<V> {
+        const removed = this.get(key)
+        this.map.delete(key)
+        return removed
+    }
+
+    /**
+     * Returns the value stored for the key, first storing the computed value if there is no entry,
+     * like Rust's `entry(key).or_insert_with(fn)`.
+     *
+     * @param key - The key to look up.
+     * @param fn - The function computing the value to store, only called if there is no entry.
+     * @returns The stored value.
+     */
+    getOrInsertWith(key: K, fn: () => V): V {
+        return this.get(key).getValueOrCompute(() => {
+            const value = fn()
+            this.map.set(key, value)
+            return value
+        })
+    }
+
+    /**
+     * Removes every entry.
+     */
+    clear(): void {
+        this.map.clear()
+    }
+
+    /**
+     * Returns an iterator of the keys, in insertion order.
+     */
+    keys(): IterableIterator<K> {
+        return this.map.keys()
+    }
+
+    /**
+     * Returns an iterator of the values, in insertion order.
+     */
+    values(): IterableIterator<V> {
+        return this.map.values()
+    }
+
+    /**
+     * Returns an iterator of the entries, in insertion order.
+     */
+    entries(): IterableIterator<[K, V]> {
+        return this.map.entries()
+    }
+
+    [Symbol.iterator](): IterableIterator<[K, V]> {
+        return this.map.entries()
+    }
+}
+
+/**
+ * A wrapper of an array whose lookups and removals return `Option` values instead of `undefined` or `-1`.
+ * The wrapped array is only changed by `push`, `pop` and `shift`.
+ * @typeparam T The type of the items.
+ */
+export class OptionArray<T> implements Iterable<T> {
+    private readonly array: T[]
+
+    /**
+     * @param items - The initial items, copied into the wrapper.
+     */
+    constructor(items: Iterable<T> = []) {
+        this.array = Array.from(items)
+    }
+
+    /**
+     * The items, as a read-only array.
+     */
+    get items(): readonly T[] {
+        return this.array
+    }
+
+    /**
+     * The number of items.
+     */
+    get length(): number {
+        return this.array.length
+    }
+
+    /**
+     * Returns the item at the index - negative indexes count back from the end.
+     *
+     * @param index - The index of the item.
+     * @returns `Some` wrapping the item if the index is in bounds, otherwise `None`.
+     */
+    at(index: number): Option<T> {
+        return at(this.array, index)
+    }
+
+    /**
+     * Returns the first item.
+     * @returns `Some` wrapping the first item, or `None` if there are no items.
+     */
+    first(): Option<T> {
+        return this.at(0)
+    }
+
+    /**
+     * Returns the last item.
+     * @returns `Some` wrapping the last item, or `None` if there are no items.
+     */
+    last(): Option<T> {
+        return this.at(-1)
+    }
+
+    /**
+     * Returns the first item satisfying the predicate.
+     *
+     * @param predicate - The predicate the item should satisfy.
+     * @returns `Some` wrapping the first matching item, otherwise `None`.
+     */
+    find<S extends T>(predicate: (item: T, index: number) => item is S): Option<S>
+    find(predicate: (item: T, index: number) => boolean): Option<T>
+    find(predicate: (item: T, index: number) => boolean): Option<T> {
+        return find(this.array, predicate)
+    }
+
+    /**
+     * Returns the index of the first item satisfying the predicate.
+     *
+     * @param predicate - The predicate the item should satisfy.
+     * @returns `Some` wrapping the index of the first matching item, otherwise `None`.
+     */
+    findIndex(predicate: (item: T, index: number) => boolean): Option<number> {
+        const index = this.array.findIndex((item, index) => predicate(item, index))
+
+        return index === -1
+            ? labelNone('OptionArray.findIndex: no item satisfied the predicate')
+            : Some(index)
+    }
+
+    /**
+     * Adds items to the end.
+     *
+     * @param items - The items to add.
+     * @returns The new number of items.
+     */
+    push(...items: T[]): number {
+        return this.array.push(...items)
+    }
+
+    /**
+     * Removes the last item.
+     * @returns `Some` wrapping the removed item, or `None` if there are no items.
+     */
+    pop(): Option<T> {
+        return this.array.length
+            ? Some(this.array.pop() as T)
+            : labelNone('OptionArray.pop: the array was empty')
+    }
+
+    /**
+     * Removes the first item.
+     * @returns `Some` wrapping the removed item, or `None` if there are no items.
+     */
+    shift(): Option<T> {
+        return this.array.length
+            ? Some(this.array.shift() as T)
+            : labelNone('OptionArray.shift: the array was empty')
+    }
+
+    /**
+     * Searches the items, which must be sorted by the compare function, for an item equal to the target.
+     *
+     * @param target - The item to search for.
+     * @param compare - Returns a negative number if `a` sorts before `b`, a positive number if after, and `0` if equal.
+     * Defaults to comparing with `<` and `>`.
+     * @returns `Some` wrapping the index of an equal item, or `None` if there is none.
+     */
+    binarySearch(target: T, compare: (a: T, b: T) => number = compareNatural): Option<number> {
+        let low = 0
+            , high = this.array.length - 1
+
+        while (low <= high) {
+            const middle = (low + high) >>> 1
+                , order = compare(this.array[middle] as T, target)
+
+            if (order === 0) {
+                return Some(middle)
+            }
+            order < 0 ? low = middle + 1 : high = middle - 1
+        }
+
+        return labelNone('OptionArray.binarySearch: no item was equal to the target')
+    }
+
+    [Symbol.iterator](): IterableIterator<T> {
+        return this.array[Symbol.iterator]()
+    }
+}
+
+function compareNatural<T>(a: T, b: T): number {
+    return a < b ? -1 : a > b ? 1 : 0
+}
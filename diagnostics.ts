@@ -0,0 +1,68 @@
+import { Option, NoneConstant, Some, None } from "./index"
+
+/**
+ * Where a `None` came from, recorded while diagnostics are enabled.
+ */
+export type NoneProvenance = {
+    /**
+     * Why the `None` was produced, e.g. `'filter: predicate returned false'`.
+     */
+    readonly reason: string
+
+    /**
+     * The stack trace captured when the `None` was produced.
+     */
+    readonly stack: string
+}
+
+let enabled = false
+
+const provenanceKey = Symbol('ts-option-type/provenance')
+
+/**
+ * Makes the library record why and where each `None` is produced, readable with `explain`.
+ * Meant for development only - while enabled, every produced `None` is a separate object capturing a stack trace,
+ * so it is no longer identical to the `None` singleton. Check `isNone` instead of comparing with `=== None`.
+ */
+export function enableOptionDiagnostics(): void {
+    enabled = true
+}
+
+/**
+ * Stops recording the provenance of `None` values, produced `None` values are the `None` singleton again.
+ */
+export function disableOptionDiagnostics(): void {
+    enabled = false
+}
+
+/**
+ * Returns a `None` labelled with the provided reason, to be read back with `explain`.
+ * Returns the `None` singleton when diagnostics are disabled.
+ *
+ * @param reason - Why the `None` is produced, or a function building it - only called while diagnostics are enabled,
+ * so building the reason costs nothing otherwise.
+ * @returns A `None` recording the reason and the current stack if diagnostics are enabled, otherwise `None`.
+ */
+export function labelNone(reason: string | (() => string)): NoneConstant {
+    if (!enabled) {
+        return None
+    }
+
+    const text = typeof reason === 'function' ? reason() : reason
+        , provenance: NoneProvenance = { reason: text, stack: new Error(text).stack || '' }
+    return Object.create(None, { [provenanceKey]: { value: provenance } })
+}
+
+/**
+ * Reads back the provenance recorded for a `None` while diagnostics were enabled.
+ *
+ * @param option - The `Option` to explain.
+ * @returns `Some` wrapping the provenance if the `Option` is a `None` produced while diagnostics were enabled, otherwise `None`.
+ */
+export function explain<T>(option: Option<T>): Option<NoneProvenance> {
+    const provenance: NoneProvenance | undefined = option.isNone
+        ? (option as { [provenanceKey]?: NoneProvenance })[provenanceKey]
+        : undefined
+
+    return provenance ? Some(provenance) : None
+}
@@ -0,0 +1,255 @@
+import { Option, isOption } from "./index"
+
+/**
+ * Decides whether two values are equal.
+ * @typeparam T The type of the compared values.
+ */
+export type Equality<T> = (a: T, b: T) => boolean
+
+/**
+ * Orders two values, returning a negative number if `a` comes before `b`, a positive number if it comes after,
+ * and `0` if they are equal - the same contract as the `Array.prototype.sort` comparator.
+ * @typeparam T The type of the compared values.
+ */
+export type Ordering<T> = (a: T, b: T) => number
+
+/**
+ * Checks whether two `Option` values are equal - both `None`, or both `Some` with equal values.
+ *
+ * @param a - The first `Option`.
+ * @param b - The second `Option`.
+ * @param eq - The element equality to use, or `'deep'` to structurally compare arrays, plain objects, dates and nested `Option` values.
+ * Defaults to `Object.is`.
+ * @returns `true` if the `Option` values are equal, otherwise `false`.
+ */
+export function equals<T>(a: Option<T>, b: Option<T>, eq: Equality<T> | 'deep' = Object.is): boolean {
+    if (a.isNone || b.isNone) {
+        return a.isNone && b.isNone
+    }
+
+    return eq === 'deep'
+        ? deepEquals(a.value, b.value)
+        : eq(a.value, b.value)
+}
+
+/**
+ * Orders two `Option` values like Rust's `Ord` - `None` comes before any `Some`,
+ * and `Some` values are ordered by their values.
+ *
+ * @param a - The first `Option`.
+ * @param b - The second `Option`.
+ * @param ord - The ordering of the values.
+ * @returns A negative number if `a` comes before `b`, a positive number if it comes after, otherwise `0`.
+ */
+export function compare<T>(a: Option<T>, b: Option<T>, ord: Ordering<T>): number {
+    if (a.isNone || b.isNone) {
+        return (a.isSome ? 1 : 0) - (b.isSome ? 1 : 0)
+    }
+
+    return ord(a.value, b.value)
+}
+
+/**
+ * Creates a comparator of `Option` values from an ordering of their values, for use with `Array.prototype.sort`.
+ *
+ * @param ord - The ordering of the values.
+ * @returns A comparator ordering `None` before `Some`.
+ */
+export function getOptionOrdering<T>(ord: Ordering<T>): Ordering<Option<T>> {
+    return (a, b) => compare(a, b, ord)
+}
+
+/**
+ * Orders `Option<number>` values, `None` first and then by ascending value.
+ */
+export const compareNumberOptions: Ordering<Option<number>> = getOptionOrdering((a, b) => a - b)
+
+/**
+ * Orders `Option<string>` values, `None` first and then by ascending code unit order.
+ */
+export const compareStringOptions: Ordering<Option<string>> = getOptionOrdering((a, b) => a < b ? -1 : a > b ? 1 : 0)
+
+/**
+ * Computes a 32-bit hash of an `Option`, consistent with `equals(a, b, 'deep')` -
+ * `Option` values that are deeply equal have the same hash.
+ *
+ * @param option - The `Option` to hash.
+ * @param hashValue - The hash function for the value, defaults to a structural hash.
+ * @returns The hash of the `Option`.
+ */
+export function hash<T>(option: Option<T>, hashValue: (value: T) => number = hashStructure): number {
+    return option.isSome
+        ? combine(SOME_SEED, hashValue(option.value))
+        : NONE_SEED
+}
+
+/**
+ * A `Map` keyed by `Option` values compared with `equals(a, b, 'deep')` instead of by identity,
+ * so `Some(1)` and another `Some(1)` refer to the same entry.
+ * @typeparam K The type of the value of the `Option` keys.
+ * @typeparam V The type of the values.
+ */
+export class OptionKeyedMap<K, V> {
+    private readonly buckets = new Map<number, [Option<K>, V][]>()
+    private count = 0
+
+    /**
+     * The number of entries.
+     */
+    get size(): number {
+        return this.count
+    }
+
+    /**
+     * Returns the value stored for a key equal to the provided key, or `undefined` if there is none.
+     */
+    get(key: Option<K>): V | undefined {
+        const entry = this.entryOf(key)
+        return entry && entry[1]
+    }
+
+    /**
+     * Returns `true` if there is an entry for a key equal to the provided key.
+     */
+    has(key: Option<K>): boolean {
+        return this.entryOf(key) !== undefined
+    }
+
+    /**
+     * Stores the value for the provided key, replacing the value of an equal key.
+     */
+    set(key: Option<K>, value: V): this {
+        const entry = this.entryOf(key)
+        if (entry) {
+            entry[1] = value
+            return this
+        }
+
+        const code = hash(key)
+        this.buckets.set(code, (this.buckets.get(code) || []).concat([[key, value]]))
+        this.count++
+        return this
+    }
+
+    /**
+     * Removes the entry for a key equal to the provided key.
+     * @returns `true` if an entry was removed, otherwise `false`.
+     */
+    delete(key: Option<K>): boolean {
+        const code = hash(key)
+            , bucket = this.buckets.get(code) || []
+            , remaining = bucket.filter(([other]) => !equals(key, other, 'deep'))
+
+        if (remaining.length === bucket.length) {
+            return false
+        }
+
+        remaining.length ? this.buckets.set(code, remaining) : this.buckets.delete(code)
+        this.count--
+        return true
+    }
+
+    private entryOf(key: Option<K>): [Option<K>, V] | undefined {
+        const bucket = this.buckets.get(hash(key)) || []
+
+        for (const entry of bucket) {
+            if (equals(key, entry[0], 'deep')) {
+                return entry
+            }
+        }
+
+        return undefined
+    }
+}
+
+const NONE_SEED = 0x6e6f6e65
+    , SOME_SEED = 0x736f6d65
+
+function deepEquals(a: unknown, b: unknown, aAncestors: object[] = [], bAncestors: object[] = []): boolean {
+    if (Object.is(a, b)) {
+        return true
+    }
+    if (typeof a !== 'object' || typeof b !== 'object' || a === null || b === null) {
+        return false
+    }
+    if (isOption(a) || isOption(b)) {
+        if (!isOption(a) || !isOption(b)) {
+            return false
+        }
+
+        return a.isNone || b.isNone
+            ? a.isNone && b.isNone
+            : deepEquals(a.value, b.value, aAncestors, bAncestors)
+    }
+
+    // A cycle only equals a cycle back to the same depth, which keeps equal values hashing the same
+    const aIndex = aAncestors.indexOf(a)
+        , bIndex = bAncestors.indexOf(b)
+    if (aIndex !== -1 || bIndex !== -1) {
+        return aIndex === bIndex
+    }
+
+    const aNested = aAncestors.concat([a])
+        , bNested = bAncestors.concat([b])
+    if (Array.isArray(a) || Array.isArray(b)) {
+        return Array.isArray(a) && Array.isArray(b)
+            && a.length === b.length
+            && a.every((item, index) => deepEquals(item, b[index], aNested, bNested))
+    }
+    if (a instanceof Date || b instanceof Date) {
+        return a instanceof Date && b instanceof Date && Object.is(a.getTime(), b.getTime())
+    }
+
+    // Other class instances, e.g. `Map` or `Set`, are only equal when identical
+    const prototype = Object.getPrototypeOf(a)
+    if (prototype !== Object.getPrototypeOf(b) || (prototype !== Object.prototype && prototype !== null)) {
+        return false
+    }
+
+    const keys = Object.keys(a)
+    return keys.length === Object.keys(b).length
+        && keys.every(key => Object.prototype.hasOwnProperty.call(b, key)
+            && deepEquals((a as Record<string, unknown>)[key], (b as Record<string, unknown>)[key], aNested, bNested))
+}
+
+function hashStructure(value: unknown, ancestors: object[] = []): number {
+    if (isOption(value)) {
+        return value.isSome
+            ? combine(SOME_SEED, hashStructure(value.value, ancestors))
+            : NONE_SEED
+    }
+    const cycle = typeof value === 'object' && value !== null ? ancestors.indexOf(value) : -1
+    if (cycle !== -1) {
+        return hashString(`cycle:${cycle}`)
+    }
+    if (Array.isArray(value)) {
+        const nested = ancestors.concat([value])
+        return value.reduce<number>((code, item) => combine(code, hashStructure(item, nested)), hashString('array'))
+    }
+    if (value instanceof Date) {
+        return combine(hashString('date'), hashString(String(value.getTime())))
+    }
+    if (typeof value === 'object' && value !== null) {
+        const nested = ancestors.concat([value])
+        // Key order does not affect equality, so the entry hashes are combined with a commutative sum
+        return Object.keys(value).reduce(
+            (code, key) => (code + combine(hashString(key), hashStructure((value as Record<string, unknown>)[key], nested))) | 0,
+            hashString('object')
+        )
+    }
+
+    return hashString(`${typeof value}:${Object.is(value, -0) ? '-0' : String(value)}`)
+}
+
+// FNV-1a
+function hashString(text: string): number {
+    let code = 0x811c9dc5
+    for (let i = 0; i < text.length; i++) {
+        code = Math.imul(code ^ text.charCodeAt(i), 0x01000193)
+    }
+    return code | 0
+}
+
+function combine(seed: number, code: number): number {
+    return Math.imul(seed ^ code, 0x01000193) ^ (code >>> 16)
+}
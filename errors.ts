@@ -0,0 +1,15 @@
+/**
+ * The error thrown by `unwrap` and `expect` when called on `None`.
+ * Its `name` is always `'OptionUnwrapError'`, so it can be told apart from other errors even across realms.
+ */
+export class OptionUnwrapError extends Error {
+    override readonly name = 'OptionUnwrapError'
+
+    /**
+     * @param message - The message describing why a value was expected.
+     * @param context - Optional details about the failed unwrap, e.g. the key that was looked up.
+     */
+    constructor(message: string, readonly context?: unknown) {
+        super(message)
+    }
+}
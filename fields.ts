@@ -0,0 +1,208 @@
+import { Option, fromValue, fromNullable, fromUndefinable, createOptionFactory, isOption } from "./index"
+
+/**
+ * How a field is turned into an `Option` by `toOptionFields`:
+ * - `value` - with `fromValue`, `null` and `undefined` are `None`. The default.
+ * - `nullable` - with `fromNullable`, only `null` is `None`.
+ * - `undefinable` - with `fromUndefinable`, only `undefined` is `None`.
+ * - a predicate - with `createOptionFactory`, values satisfying it are `None`.
+ * @typeparam V The type of the field.
+ */
+export type FieldConversion<V> = 'value' | 'nullable' | 'undefinable' | ((value: V) => boolean)
+
+/**
+ * Chooses how each field is converted by `toOptionFields`. A nested spec converts the field with `fromValue`,
+ * then converts the fields of the nested object - or of each object in a nested array - with the nested spec.
+ * @typeparam T The type of the converted object.
+ */
+export type OptionFieldsSpec<T> = {
+    readonly [K in keyof T]?: FieldConversion<T[K]> | NestedSpec<T[K]>
+}
+
+/**
+ * The object `toOptionFields` returns for an object of type `T` converted with the spec `S`.
+ * Optional fields stay optional unless the spec lists them, as they are only included if present on the object.
+ * @typeparam T The type of the converted object.
+ * @typeparam S The type of the spec.
+ *
+ * @example
+ * type User = OptionFields<{ name?: string | null, tags: string[] | null }>
+ * // { name?: Option<string>, tags: Option<string[]> }
+ */
+export type OptionFields<T, S = {}> = Simplify<
+    { [K in keyof T as IsOptionalField<T, S, K> extends true ? never : K]-?: OptionField<T, S, K> }
+    & { [K in keyof T as IsOptionalField<T, S, K> extends true ? K : never]?: OptionField<T, S, K> }
+>
+
+/**
+ * How `fromOptionFields` encodes `None` fields:
+ * - `null` - as `null`. The default.
+ * - `undefined` - as `undefined`.
+ * - `omit` - by leaving the field out.
+ */
+export type OptionFieldEncoding = 'null' | 'undefined' | 'omit'
+
+/**
+ * The settings of `fromOptionFields`.
+ * @typeparam E The encoding of `None` fields.
+ */
+export type FromOptionFieldsSettings<E extends OptionFieldEncoding> = {
+    /**
+     * How `None` fields are encoded. Defaults to `null`.
+     */
+    readonly encode?: E
+}
+
+/**
+ * The object `fromOptionFields` returns for an object of type `T` with `None` fields encoded with `E`.
+ * @typeparam T The type of the converted object.
+ * @typeparam E The encoding of `None` fields.
+ *
+ * @example
+ * type UserDTO = NullableFields<{ name: Option<string>, age: number }>
+ * // { name: string | null, age: number }
+ */
+export type NullableFields<T, E extends OptionFieldEncoding = 'null'> = E extends 'omit'
+    ? Simplify<
+        { [K in keyof T as T[K] extends Option<any> ? never : K]: NullableValue<T[K], E> }
+        & { [K in keyof T as T[K] extends Option<any> ? K : never]?: T[K] extends Option<infer V> ? NullableValue<V, E> : never }
+    >
+    : { [K in keyof T]: NullableValue<T[K], E> }
+
+/**
+ * Converts the fields of an object into `Option` values, e.g. a DTO like `{ name?: string | null }` into
+ * `{ name: Option<string> }`. Fields are converted with `fromValue` unless the spec chooses otherwise.
+ * Fields missing from the object are only included if they are listed in the spec, so list optional fields
+ * in the spec to always get an `Option` for them.
+ *
+ * @example
+ * toOptionFields(dto, {
+ *     nickname: 'nullable',
+ *     age: age => age < 0,
+ *     address: { street: 'value' },
+ *     orders: { discount: 'undefinable' }
+ * })
+ *
+ * @param record - The object to convert.
+ * @param spec - How to convert each field.
+ * @returns A new object with every field wrapped in an `Option`.
+ */
+export function toOptionFields<T extends object>(record: T): OptionFields<T>
+export function toOptionFields<T extends object, S extends OptionFieldsSpec<T>>(record: T, spec: S): OptionFields<T, S>
+export function toOptionFields<T extends object, S extends OptionFieldsSpec<T>>(record: T, spec?: S): OptionFields<T, S> {
+    const conversions: Record<string, unknown> = spec || {}
+        , fields: Record<string, unknown> = record as Record<string, unknown>
+        , result: Record<string, Option<unknown>> = {}
+
+    for (const key of unique(Object.keys(fields).concat(Object.keys(conversions)))) {
+        setField(result, key, convertField(fields[key], ownField(conversions, key)))
+    }
+
+    return result as OptionFields<T, S>
+}
+
+/**
+ * Converts the `Option` fields of an object back into plain values, e.g. `{ name: Option<string> }` into
+ * `{ name: string | null }`. Nested objects, arrays and `Option` values are converted too.
+ *
+ * @param record - The object to convert.
+ * @param settings - How to encode `None` fields.
+ * @returns A new object with `Some` fields unwrapped and `None` fields encoded.
+ */
+export function fromOptionFields<T extends object, E extends OptionFieldEncoding = 'null'>(record: T, settings: FromOptionFieldsSettings<E> = {}): NullableFields<T, E> {
+    const encode: OptionFieldEncoding = settings.encode || 'null'
+        , fields: Record<string, unknown> = record as Record<string, unknown>
+        , result: Record<string, unknown> = {}
+
+    for (const key of Object.keys(fields)) {
+        const field = fields[key]
+        if (encode !== 'omit' || !isOption(field) || field.isSome) {
+            setField(result, key, decode(field, encode))
+        }
+    }
+
+    return result as NullableFields<T, E>
+}
+
+type IsOptionalField<T, S, K extends keyof T> = K extends keyof S ? false
+    : {} extends Pick<T, K> ? true
+    : false
+
+type OptionField<T, S, K extends keyof T> = Option<ConvertedField<T[K], K extends keyof S ? S[K] : 'value'>>
+
+type NestedSpec<V> = NonNullable<V> extends object ? OptionFieldsSpec<ElementOf<NonNullable<V>>> : never
+
+type ElementOf<V> = V extends readonly (infer E)[] ? E : V
+
+type ConvertedField<V, C> = C extends 'value' ? NonNullable<V>
+    : C extends 'nullable' ? Exclude<V, null>
+    : C extends 'undefinable' ? Exclude<V, undefined>
+    : C extends (value: any) => boolean ? V
+    : NonNullable<V> extends readonly (infer E)[] ? OptionFields<E, C>[]
+    : OptionFields<NonNullable<V>, C>
+
+type NullableValue<V, E extends OptionFieldEncoding> = V extends Option<infer U> ? NullableValue<U, E> | (E extends 'null' ? null : undefined)
+    : V extends readonly (infer I)[] ? NullableValue<I, E>[]
+    : V extends ((...args: any[]) => unknown) | Date | RegExp | ReadonlyMap<unknown, unknown> | ReadonlySet<unknown> | PromiseLike<unknown> ? V
+    : V extends object ? NullableFields<V, E>
+    : V
+
+type Simplify<T> = { [K in keyof T]: T[K] }
+
+function convertField(value: unknown, conversion: unknown): Option<unknown> {
+    if (conversion === undefined || conversion === 'value') {
+        return fromValue(value)
+    }
+    if (conversion === 'nullable') {
+        return fromNullable(value)
+    }
+    if (conversion === 'undefinable') {
+        return fromUndefinable(value)
+    }
+    if (typeof conversion === 'function') {
+        return createOptionFactory(conversion as (value: unknown) => boolean)(value)
+    }
+
+    const spec = conversion as OptionFieldsSpec<object>
+        , convertItem = (item: unknown) => typeof item === 'object' && item !== null ? toOptionFields(item, spec) : item
+
+    return fromValue(value).map(nested => Array.isArray(nested) ? nested.map(convertItem) : convertItem(nested))
+}
+
+function decode(value: unknown, encode: OptionFieldEncoding): unknown {
+    if (isOption(value)) {
+        return value.isSome
+            ? decode(value.value, encode)
+            : encode === 'null' ? null : undefined
+    }
+    if (Array.isArray(value)) {
+        return value.map(item => decode(item, encode))
+    }
+
+    return isPlainObject(value)
+        ? fromOptionFields(value, { encode })
+        : value
+}
+
+function isPlainObject(value: unknown): value is object {
+    if (typeof value !== 'object' || value === null) {
+        return false
+    }
+
+    const prototype = Object.getPrototypeOf(value)
+    return prototype === Object.prototype || prototype === null
+}
+
+// Inherited properties like `toString` or `__proto__` are not conversions
+function ownField(record: Record<string, unknown>, key: string): unknown {
+    return Object.prototype.hasOwnProperty.call(record, key) ? record[key] : undefined
+}
+
+// Defined rather than assigned, so a `__proto__` key from parsed JSON is a field instead of replacing the prototype
+function setField(record: object, key: string, value: unknown): void {
+    Object.defineProperty(record, key, { value, enumerable: true, writable: true, configurable: true })
+}
+
+function unique(keys: string[]): string[] {
+    return keys.filter((key, index) => keys.indexOf(key) === index)
+}
@@ -0,0 +1,187 @@
+import { Option, Some, retypeNone } from "./index"
+import { labelNone } from "./diagnostics"
+
+/**
+ * Data-last, pipeable versions of the `Option` methods.
+ * Each function takes its arguments first and returns a function accepting the `Option`,
+ * so they compose with `pipe` and `flow`:
+ *
+ * @example
+ * pipe(option, map(n => n * 2), filter(n => n > 5), getValueOrDefault(0))
+ */
+
+/**
+ * Pipeable version of `Option.match`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the value returned by the callbacks.
+ * @param some - The callback to apply if the `Option` is `Some`, and will be passed the value.
+ * @param none - The callback to apply if the `Option` is `None`.
+ * @returns A function returning the result of either `some(value)` or `none()`.
+ */
+export function match<T, U>(some: (value: T) => U, none: () => U): (option: Option<T>) => U {
+    return option => option.isSome ? some(option.value) : none()
+}
+
+/**
+ * Pipeable version of `Option.getValueOrDefault`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @param defaultValue - The default value to return if the `Option` is `None`.
+ * @returns A function returning the value if the `Option` is `Some`, otherwise `defaultValue`.
+ */
+export function getValueOrDefault<T>(defaultValue: T): (option: Option<T>) => T {
+    return option => option.isSome ? option.value : defaultValue
+}
+
+/**
+ * Pipeable version of `Option.getValueOrCompute`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @param computeFn - The function to compute a value if the `Option` is `None`.
+ * @returns A function returning the value if the `Option` is `Some`, otherwise the result of `computeFn()`.
+ */
+export function getValueOrCompute<T>(computeFn: () => T): (option: Option<T>) => T {
+    return option => option.isSome ? option.value : computeFn()
+}
+
+/**
+ * Pipeable version of `Option.mapOrDefault`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the mapped value.
+ * @param map - The function to apply to the value if the `Option` is `Some`.
+ * @param defaultValue - The value to return if the `Option` is `None`.
+ * @returns A function returning the result of applying `map` to the value if it is `Some`, otherwise `defaultValue`.
+ */
+export function mapOrDefault<T, U>(map: (value: T) => U, defaultValue: U): (option: Option<T>) => U {
+    return option => option.isSome ? map(option.value) : defaultValue
+}
+
+/**
+ * Pipeable version of `Option.mapOrCompute`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the mapped value.
+ * @param map - The function to apply to the value if the `Option` is `Some`.
+ * @param computeFn - The function to compute a value if the `Option` is `None`.
+ * @returns A function returning the result of applying `map` to the value if it is `Some`, otherwise the result of `computeFn()`.
+ */
+export function mapOrCompute<T, U>(map: (value: T) => U, computeFn: () => U): (option: Option<T>) => U {
+    return option => option.isSome ? map(option.value) : computeFn()
+}
+
+/**
+ * Pipeable version of `Option.map`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the mapped value.
+ * @param fn - The function to apply to the value if the `Option` is `Some`.
+ * @returns A function returning a new `Option` with the result of applying `fn` if it is `Some`, otherwise `None`.
+ */
+export function map<T, U>(fn: (value: T) => U): (option: Option<T>) => Option<U> {
+    return option => option.isSome ? Some(fn(option.value)) : retypeNone(option)
+}
+
+/**
+ * Pipeable version of `Option.and`.
+ *
+ * @typeparam U The type of the value of the other `Option`.
+ * @param other - The `Option` to return if the `Option` is `Some`.
+ * @returns A function returning `other` if the `Option` is `Some`, otherwise `None`.
+ */
+export function and<U>(other: Option<U>): <T>(option: Option<T>) => Option<U> {
+    return option => option.isSome ? other : retypeNone(option)
+}
+
+/**
+ * Pipeable version of `Option.andThen`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the value of the returned `Option`.
+ * @param fn - The function to call if the `Option` is `Some`.
+ * @returns A function returning the result of calling `fn` if the `Option` is `Some`, otherwise `None`.
+ */
+export function andThen<T, U>(fn: (value: T) => Option<U>): (option: Option<T>) => Option<U> {
+    return option => option.isSome ? fn(option.value) : retypeNone(option)
+}
+
+/**
+ * Pipeable version of `Option.or`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @param other - The `Option` to return if the `Option` is `None`.
+ * @returns A function returning the `Option` if it is `Some`, otherwise `other`.
+ */
+export function or<T>(other: Option<T>): (option: Option<T>) => Option<T> {
+    return option => option.isSome ? option : other
+}
+
+/**
+ * Pipeable version of `Option.orElse`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @param fn - The function to call if the `Option` is `None`.
+ * @returns A function returning the `Option` if it is `Some`, otherwise the result of calling `fn`.
+ */
+export function orElse<T>(fn: () => Option<T>): (option: Option<T>) => Option<T> {
+    return option => option.isSome ? option : fn()
+}
+
+/**
+ * Pipeable version of `Option.filter`.
+ *
+ * @typeparam T The type of the wrapped value.
+ * @param fn - The predicate function to apply to the value.
+ * @returns A function returning the `Option` if its value satisfies the predicate, otherwise `None`.
+ */
+export function filter<T>(fn: (value: T) => boolean): (option: Option<T>) => Option<T> {
+    return option => option.isSome && !fn(option.value)
+        ? labelNone('filter: predicate returned false')
+        : option
+}
+
+/**
+ * Pipes a value through a sequence of functions, left to right.
+ *
+ * @example
+ * pipe(Some(4), map(n => n * 2), getValueOrDefault(0)) // 8
+ *
+ * @param a - The value to pipe.
+ * @returns The result of applying all functions in order.
+ */
+export function pipe<A>(a: A): A
+export function pipe<A, B>(a: A, ab: (a: A) => B): B
+export function pipe<A, B, C>(a: A, ab: (a: A) => B, bc: (b: B) => C): C
+export function pipe<A, B, C, D>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D): D
+export function pipe<A, B, C, D, E>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): E
+export function pipe<A, B, C, D, E, F>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F): F
+export function pipe<A, B, C, D, E, F, G>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G): G
+export function pipe<A, B, C, D, E, F, G, H>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G, gh: (g: G) => H): H
+export function pipe<A, B, C, D, E, F, G, H, I>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G, gh: (g: G) => H, hi: (h: H) => I): I
+export function pipe<A, B, C, D, E, F, G, H, I, J>(a: A, ab: (a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G, gh: (g: G) => H, hi: (h: H) => I, ij: (i: I) => J): J
+export function pipe(a: unknown, ...fns: ((value: unknown) => unknown)[]): unknown {
+    return fns.reduce((value, fn) => fn(value), a)
+}
+
+/**
+ * Composes a sequence of functions, left to right, into a single function.
+ *
+ * @example
+ * const double = flow(map((n: number) => n * 2), getValueOrDefault(0))
+ * double(Some(4)) // 8
+ *
+ * @param ab - The first function, which may take any number of arguments.
+ * @returns A function applying all functions in order.
+ */
+export function flow<A extends unknown[], B>(ab: (...a: A) => B): (...a: A) => B
+export function flow<A extends unknown[], B, C>(ab: (...a: A) => B, bc: (b: B) => C): (...a: A) => C
+export function flow<A extends unknown[], B, C, D>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D): (...a: A) => D
+export function flow<A extends unknown[], B, C, D, E>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E): (...a: A) => E
+export function flow<A extends unknown[], B, C, D, E, F>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F): (...a: A) => F
+export function flow<A extends unknown[], B, C, D, E, F, G>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G): (...a: A) => G
+export function flow<A extends unknown[], B, C, D, E, F, G, H>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G, gh: (g: G) => H): (...a: A) => H
+export function flow<A extends unknown[], B, C, D, E, F, G, H, I>(ab: (...a: A) => B, bc: (b: B) => C, cd: (c: C) => D, de: (d: D) => E, ef: (e: E) => F, fg: (f: F) => G, gh: (g: G) => H, hi: (h: H) => I): (...a: A) => I
+export function flow(ab: (...a: unknown[]) => unknown, ...fns: ((value: unknown) => unknown)[]): (...a: unknown[]) => unknown {
+    return (...a) => fns.reduce((value, fn) => fn(value), ab(...a))
+}
@@ -0,0 +1,68 @@
+import { Option, Some, retypeNone } from "./index"
+import { AsyncOption, toAsyncOption } from "./asyncOption"
+
+/**
+ * Runs a generator function in which `yield*` unwraps `Option` values, similar to Rust's `?` operator.
+ * Stops at the first yielded `None` and returns it, otherwise returns `Some` wrapping the generator's return value.
+ *
+ * @example
+ * const sum = gen(function* () {
+ *     const a = yield* parse(x)
+ *     const b = yield* parse(y)
+ *     return a + b
+ * })
+ *
+ * @typeparam T The type of the value returned by the generator.
+ * @param body - The generator function to run.
+ * @returns `Some` wrapping the generator's return value, or `None` if any yielded `Option` is `None`.
+ */
+export function gen<T>(body: () => Generator<Option<unknown>, T, unknown>): Option<T> {
+    const iterator = body()
+    let step = iterator.next()
+
+    while (!step.done) {
+        const option = step.value
+        if (option.isNone) {
+            iterator.return(undefined as unknown as T)
+            return retypeNone(option)
+        }
+        step = iterator.next(option.value)
+    }
+
+    return Some(step.value)
+}
+
+/**
+ * Runs an async generator function in which `yield*` unwraps `Option` values, and `yield* await` unwraps
+ * promises of `Option` values and `AsyncOption` values.
+ * Stops at the first yielded `None` and resolves to it, otherwise resolves to `Some` wrapping the generator's return value.
+ *
+ * @example
+ * const profile = genAsync(async function* () {
+ *     const user = yield* await fetchUser(id)
+ *     return yield* await fetchProfile(user.profileId)
+ * })
+ *
+ * @typeparam T The type of the value returned by the generator.
+ * @param body - The async generator function to run.
+ * @returns An `AsyncOption` of the generator's return value, or of `None` if any yielded `Option` is `None`.
+ */
+export function genAsync<T>(body: () => AsyncGenerator<Option<unknown>, T, unknown>): AsyncOption<T> {
+    return toAsyncOption(runAsync(body))
+}
+
+async function runAsync<T>(body: () => AsyncGenerator<Option<unknown>, T, unknown>): Promise<Option<T>> {
+    const iterator = body()
+    let step = await iterator.next()
+
+    while (!step.done) {
+        const option = step.value
+        if (option.isNone) {
+            await iterator.return(undefined as unknown as T)
+            return retypeNone(option)
+        }
+        step = await iterator.next(option.value)
+    }
+
+    return Some(step.value)
+}
@@ -1,8 +1,157 @@
+import { Result, Ok, Err } from "./result"
+import { AsyncOption, toAsyncOption } from "./asyncOption"
+import { OptionJSON } from "./json"
+import { gen, genAsync } from "./gen"
+import { OptionUnwrapError } from "./errors"
+import { Inspect, InspectOptions, debugString, displayString, inspectCustom, inspectOption } from "./inspect"
+import { labelNone } from "./diagnostics"
+import * as safe from "./safe"
+import * as iter from "./iter"
+import * as asyncIter from "./asyncIter"
+import { optionBrand } from "./brand"
+
+export * from "./result"
+export * from "./asyncOption"
+export * from "./json"
+export * from "./collections"
+export * from "./gen"
+export * from "./equality"
+export * from "./cell"
+export * from "./errors"
+export * from "./tryCatch"
+export * from "./monoid"
+export * from "./diagnostics"
+export * from "./lift"
+export * from "./lazy"
+export * from "./pattern"
+export * from "./fields"
+export * from "./containers"
+export * from "./promise"
+export * from "./types"
+export { safe, iter, asyncIter }
+
 /**
  * Represents an optional value that can either be `Some` with a value or `None`.
+ * Checking `isSome` or `isNone` narrows it to `SomeOption<T>` or `NoneOption<T>` respectively.
  * @typeparam T The type of the wrapped value.
  */
-export type Option<T> = {
+export type Option<T> = SomeOption<T> | NoneOption<T>
+
+/**
+ * The `Some` variant of `Option<T>`, holding a value.
+ * @typeparam T The type of the wrapped value.
+ */
+export type SomeOption<T> = OptionMethods<T> & {
+    /**
+     * The value wrapped by this `Some`.
+     */
+    readonly value: T
+
+    /**
+     * Always `false` for `Some`.
+     */
+    readonly isNone: false
+
+    /**
+     * Always `true` for `Some`.
+     */
+    readonly isSome: true
+}
+
+/**
+ * The `None` variant of `Option<T>`, holding no value.
+ * @typeparam T The type of the value this `None` stands in for.
+ */
+export type NoneOption<T = never> = OptionMethods<T> & {
+    /**
+     * Always `true` for `None`.
+     */
+    readonly isNone: true
+
+    /**
+     * Always `false` for `None`.
+     */
+    readonly isSome: false
+}
+
+/**
+ * The type of the `None` constant. As it holds no value, its defaults and alternatives may be of any type,
+ * e.g. `None.getValueOrDefault('none')` is a `string`.
+ */
+export type NoneConstant = NoneOption & {
+    /**
+     * Returns the provided `defaultValue`.
+     *
+     * @typeparam U The type of the default value.
+     * @param defaultValue - The value to return.
+     * @returns `defaultValue`.
+     */
+    getValueOrDefault<U>(defaultValue: U): U
+
+    /**
+     * Returns the result of calling the provided function.
+     *
+     * @typeparam U The type of the computed value.
+     * @param computeFn - The function to compute the value.
+     * @returns The result of `computeFn()`.
+     */
+    getValueOrCompute<U>(computeFn: () => U): U
+
+    /**
+     * Returns the provided `Option`.
+     *
+     * @typeparam U The type of the value of the other `Option`.
+     * @param option - The `Option` to return.
+     * @returns `option`.
+     */
+    or<U>(option: Option<U>): Option<U>
+
+    /**
+     * Returns the result of calling the provided function.
+     *
+     * @typeparam U The type of the value of the returned `Option`.
+     * @param fn - The function to call.
+     * @returns The result of `fn()`.
+     */
+    orElse<U>(fn: () => Option<U>): Option<U>
+
+    /**
+     * Returns the provided `Option`, as `None` is never `Some`.
+     *
+     * @typeparam U The type of the value of the other `Option`.
+     * @param option - The other `Option`.
+     * @returns `option`.
+     */
+    xor<U>(option: Option<U>): Option<U>
+
+    /**
+     * Alias of `getValueOrDefault`, named after Rust's `unwrap_or`.
+     */
+    unwrapOr<U>(defaultValue: U): U
+
+    /**
+     * Alias of `getValueOrCompute`, named after Rust's `unwrap_or_else`.
+     */
+    unwrapOrElse<U>(computeFn: () => U): U
+}
+
+/**
+ * The arms of the object form of `match`, named after the variant they handle.
+ * @typeparam T The type of the wrapped value.
+ * @typeparam U The type of the value returned by the arms.
+ */
+export type MatchArms<T, U> = {
+    readonly Some: (value: T) => U
+    readonly None: () => U
+}
+
+/**
+ * The methods shared by both variants of `Option<T>`.
+ * Methods taking a `T` are declared with method syntax, whose parameters TypeScript checks bivariantly,
+ * so an `Option<Dog>` is still an `Option<Animal>` while `Some(1).or(Some('a'))` is rejected.
+ * @typeparam T The type of the wrapped value.
+ */
+export type OptionMethods<T> = {
     /**
      * Applies the provided callbacks to the value of this `Option`
      * depending on its contents and returns the result of the called
@@ -13,7 +162,18 @@ export type Option<T> = {
      * @param some - The callback to apply if this `Option` is `Some`, and will be passed the value.
      * @returns The result of either `some(value)` or `none()`.
      */
-    readonly match: <U>(some: (value: T) => U, none: () => U) => U
+    readonly match: {
+        <U>(some: (value: T) => U, none: () => U): U
+
+        /**
+         * Applies the callback of the matching arm to the value of this `Option` and returns its result.
+         *
+         * @typeparam U The type of the value returned by the arms.
+         * @param arms - The `Some` arm, passed the value, and the `None` arm.
+         * @returns The result of either `arms.Some(value)` or `arms.None()`.
+         */
+        <U>(arms: MatchArms<T, U>): U
+    }
 
     /**
      * Returns the value of this `Option` if it is `Some`, otherwise
@@ -22,7 +182,7 @@ export type Option<T> = {
      * @param defaultValue - The default value to return if this `Option` is `None`.
      * @returns The value of this `Option` if it is `Some`, otherwise `defaultValue`.
      */
-    readonly getValueOrDefault: (defaultValue: T) => T
+    getValueOrDefault(defaultValue: T): T
 
     /**
      * Returns the value of this `Option` if it is `Some`, or computes a value using the
@@ -31,7 +191,7 @@ export type Option<T> = {
      * @param computeFn - The function to compute a value if this `Option` is `None`.
      * @returns The value of this `Option` if it is `Some`, otherwise the result of `computeFn()`.
      */
-    readonly getValueOrCompute: (computeFn: () => T) => T
+    getValueOrCompute(computeFn: () => T): T
 
     /**
      * Applies a mapping function to the value of this `Option` if it is `Some`, otherwise returns the provided `defaultValue`.
@@ -88,7 +248,7 @@ export type Option<T> = {
      * @param option - The `Option` to return if this `Option` is `None`.
      * @returns `this` if it is `Some`, otherwise the provided `Option`.
      */
-    readonly or: (option: Option<T>) => Option<T>
+    or(option: Option<T>): Option<T>
 
     /**
      * Returns `this` if it is `Some`, otherwise returns the result of calling the provided function.
@@ -97,7 +257,7 @@ export type Option<T> = {
      * @param fn - The function to call if this `Option` is `None`.
      * @returns `this` if it is `Some`, otherwise the result of calling the provided function.
      */
-    readonly orElse: (fn: () => Option<T>) => Option<T>
+    orElse(fn: () => Option<T>): Option<T>
 
     /**
      * Returns `this` if the value satisfies the provided predicate, otherwise returns `None`.
@@ -108,26 +268,196 @@ export type Option<T> = {
     readonly filter: (fn: (value: T) => boolean) => Option<T>
 
     /**
-     * Returns `true` if this `Option` is `None`, otherwise `false`.
-     * @returns `true` if this `Option` is `None`, otherwise `false`.
+     * Returns the `Some` one of `this` and the provided `Option` if exactly one of them is `Some`, otherwise returns `None`.
+     *
+     * @param option - The other `Option`.
+     * @returns `this` or `option` if exactly one of them is `Some`, otherwise `None`.
+     */
+    xor(option: Option<T>): Option<T>
+
+    /**
+     * Zips `this` with the provided `Option` into an `Option` of a pair.
+     *
+     * @typeparam U The type of the value of the other `Option`.
+     * @param option - The `Option` to zip with.
+     * @returns `Some([value, otherValue])` if both are `Some`, otherwise `None`.
+     */
+    readonly zip: <U>(option: Option<U>) => Option<[T, U]>
+
+    /**
+     * Combines the values of `this` and the provided `Option` with the provided function.
+     *
+     * @typeparam U The type of the value of the other `Option`.
+     * @typeparam R The type of the combined value.
+     * @param option - The `Option` to combine with.
+     * @param fn - The function combining both values.
+     * @returns `Some(fn(value, otherValue))` if both are `Some`, otherwise `None`.
+     */
+    readonly zipWith: <U, R>(option: Option<U>, fn: (value: T, other: U) => R) => Option<R>
+
+    /**
+     * Unzips an `Option` of a pair into a pair of `Option` values.
+     *
+     * @typeparam A The type of the first value of the pair.
+     * @typeparam B The type of the second value of the pair.
+     * @returns `[Some(a), Some(b)]` if this `Option` is `Some([a, b])`, otherwise `[None, None]`.
+     */
+    readonly unzip: <A, B>(this: Option<[A, B]>) => [Option<A>, Option<B>]
+
+    /**
+     * Removes one level of nesting from an `Option` of an `Option`.
+     *
+     * @typeparam U The type of the value of the inner `Option`.
+     * @returns The inner `Option` if this `Option` is `Some`, otherwise `None`.
+     */
+    readonly flatten: <U>(this: Option<Option<U>>) => Option<U>
+
+    /**
+     * Calls the provided function with the value if this `Option` is `Some`, and returns `this`.
+     *
+     * @param fn - The function to call with the value.
+     * @returns `this`.
+     */
+    readonly inspect: (fn: (value: T) => void) => Option<T>
+
+    /**
+     * Returns `true` if this `Option` is `Some` and its value satisfies the provided predicate.
+     *
+     * @param fn - The predicate function to apply to the value.
+     * @returns `true` if this `Option` is `Some` and `fn(value)` is `true`, otherwise `false`.
+     */
+    readonly isSomeAnd: (fn: (value: T) => boolean) => boolean
+
+    /**
+     * Returns `true` if this `Option` is `None` or its value satisfies the provided predicate.
+     *
+     * @param fn - The predicate function to apply to the value.
+     * @returns `true` if this `Option` is `None` or `fn(value)` is `true`, otherwise `false`.
+     */
+    readonly isNoneOr: (fn: (value: T) => boolean) => boolean
+
+    /**
+     * Alias of `mapOrDefault`, named after Rust's `map_or`.
+     */
+    readonly mapOr: <U>(map: (some: T) => U, defaultValue: U) => U
+
+    /**
+     * Alias of `mapOrCompute`, named after Rust's `map_or_else`.
+     */
+    readonly mapOrElse: <U>(map: (some: T) => U, computeFn: () => U) => U
+
+    /**
+     * Alias of `getValueOrDefault`, named after Rust's `unwrap_or`.
+     */
+    unwrapOr(defaultValue: T): T
+
+    /**
+     * Alias of `getValueOrCompute`, named after Rust's `unwrap_or_else`.
+     */
+    unwrapOrElse(computeFn: () => T): T
+
+    /**
+     * Returns the value of this `Option` if it is `Some`, otherwise throws an `OptionUnwrapError` with the provided message.
+     *
+     * @param message - The message of the error thrown if this `Option` is `None`.
+     * @param context - Optional details attached to the thrown error as `context`.
+     * @returns The value of this `Option`.
+     * @throws {OptionUnwrapError} If this `Option` is `None`.
+     */
+    readonly expect: (message: string, context?: unknown) => T
+
+    /**
+     * Returns the value of this `Option` if it is `Some`, otherwise throws an `OptionUnwrapError`.
+     *
+     * @returns The value of this `Option`.
+     * @throws {OptionUnwrapError} If this `Option` is `None`.
+     */
+    readonly unwrap: () => T
+
+    /**
+     * Converts this `Option` into a `Result`, mapping `Some(value)` to `Ok(value)` and `None` to `Err(error)`.
+     *
+     * @typeparam E The type of the error.
+     * @param error - The error to wrap in `Err` if this `Option` is `None`.
+     * @returns `Ok` wrapping the value if this `Option` is `Some`, otherwise `Err` wrapping `error`.
+     */
+    readonly okOr: <E>(error: E) => Result<T, E>
+
+    /**
+     * Converts this `Option` into a `Result`, mapping `Some(value)` to `Ok(value)` and `None` to `Err` of the computed error.
+     *
+     * @typeparam E The type of the error.
+     * @param fn - The function to compute the error if this `Option` is `None`.
+     * @returns `Ok` wrapping the value if this `Option` is `Some`, otherwise `Err` wrapping the result of `fn()`.
+     */
+    readonly okOrElse: <E>(fn: () => E) => Result<T, E>
+
+    /**
+     * Transposes an `Option` of a `Result` into a `Result` of an `Option`.
+     * `None` is mapped to `Ok(None)`, `Some(Ok(v))` to `Ok(Some(v))` and `Some(Err(e))` to `Err(e)`.
+     *
+     * @typeparam U The type of the value wrapped by the inner `Result`.
+     * @typeparam E The type of the error wrapped by the inner `Result`.
+     * @returns a `Result` of an `Option`.
+     */
+    readonly transpose: <U, E>(this: Option<Result<U, E>>) => Result<Option<U>, E>
+
+    /**
+     * Wraps this `Option` in an `AsyncOption`, allowing it to be chained with asynchronous callbacks.
+     * @returns An `AsyncOption` resolving to this `Option`.
+     */
+    readonly toAsync: () => AsyncOption<T>
+
+    /**
+     * Encodes this `Option` in the tagged wire format, called by `JSON.stringify`.
+     * Use `reviveOptions` with `JSON.parse` to decode it.
+     * @returns `{ $option: 'some', value }` if this `Option` is `Some`, otherwise `{ $option: 'none' }`.
+     */
+    readonly toJSON: () => OptionJSON<T>
+
+    /**
+     * Makes this `Option` usable with `yield*` inside `gen` and `genAsync`.
+     * Evaluates to the value if this `Option` is `Some`, otherwise yields `None` to stop the generator.
+     * @returns An iterator over this `Option`.
+     */
+    readonly [Symbol.iterator]: () => Iterator<Option<T>, T, unknown>
+
+    /**
+     * Formats this `Option` as `Some(value)` or `None`, converting the value with `String`,
+     * or like `toDebugString` if `String` cannot convert it.
+     * @returns `Some(value)` if this `Option` is `Some`, otherwise `None`.
      */
-    readonly isNone: boolean
+    readonly toString: () => string
 
     /**
-     * Returns `true` if this `Option` is `Some`, otherwise `false`.
-     * @returns `true` if this `Option` is `Some`, otherwise `false`.
+     * Formats this `Option` for debugging, like `Some({ id: 1, tags: ["a"] })`.
+     * Strings are quoted, nested `Option` values are formatted the same way and cycles are printed as `[Circular]`.
+     * @returns The formatted `Option`.
      */
-    readonly isSome: boolean
+    readonly toDebugString: () => string
+
+    /**
+     * `'Some'` or `'None'`, used by `Object.prototype.toString`.
+     */
+    readonly [Symbol.toStringTag]: 'Some' | 'None'
 }
 
-export const None: Option<any> = {
-    match(_, none) {
-        return none()
+/**
+ * Namespace for `Option` helpers, e.g. `Option.gen(function* () { ... })`.
+ */
+export const Option = {
+    gen,
+    genAsync
+}
+
+export const None: NoneConstant = {
+    match<U>(some: ((value: never) => U) | MatchArms<never, U>, none?: () => U): U {
+        return typeof some === 'function' ? (none as () => U)() : some.None()
     },
-    getValueOrDefault(defaultValue) {
+    getValueOrDefault<U>(defaultValue: U): U {
         return defaultValue
     },
-    getValueOrCompute(computeFn) {
+    getValueOrCompute<U>(computeFn: () => U): U {
         return computeFn()
     },
     mapOrDefault(_, defaultValue) {
@@ -137,67 +467,353 @@ export const None: Option<any> = {
         return defaultComputeFn()
     },
     map(_) {
-        return None
+        return this
     },
     and(_) {
-        return None
+        return this
     },
     andThen(_) {
-        return None
+        return this
     },
-    or(option) {
+    or<U>(option: Option<U>): Option<U> {
         return option
     },
-    orElse(fn) {
+    orElse<U>(fn: () => Option<U>): Option<U> {
         return fn()
     },
     filter(_) {
-        return None
+        return this
+    },
+    xor<U>(option: Option<U>): Option<U> {
+        return option
+    },
+    zip(_) {
+        return this
+    },
+    zipWith(_, __) {
+        return this
+    },
+    unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+        const none = this as NoneOption<[A, B]>
+        return [retypeNone(none), retypeNone(none)]
+    },
+    flatten<U>(this: Option<Option<U>>): Option<U> {
+        return retypeNone(this as NoneOption<Option<U>>)
+    },
+    inspect(_) {
+        return this
+    },
+    isSomeAnd(_) {
+        return false
+    },
+    isNoneOr(_) {
+        return true
+    },
+    mapOr(_, defaultValue) {
+        return defaultValue
     },
+    mapOrElse(_, computeFn) {
+        return computeFn()
+    },
+    unwrapOr<U>(defaultValue: U): U {
+        return defaultValue
+    },
+    unwrapOrElse<U>(computeFn: () => U): U {
+        return computeFn()
+    },
+    expect(message, context) {
+        throw new OptionUnwrapError(message, context)
+    },
+    unwrap() {
+        throw new OptionUnwrapError('Called unwrap on a None value')
+    },
+    okOr(error) {
+        return Err(error)
+    },
+    okOrElse(fn) {
+        return Err(fn())
+    },
+    transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+        return Ok(retypeNone(this as NoneOption<Result<U, E>>))
+    },
+    toAsync(): AsyncOption<never> {
+        return toAsyncOption<never>(this)
+    },
+    toJSON() {
+        return { $option: 'none' }
+    },
+    [Symbol.iterator]() {
+        // No `return` method on purpose - when `gen` stops a generator suspended in `yield* None`,
+        // the generator itself returns instead of resuming with the inner iterator's return value
+        const self = this
+        let done = false
+        return {
+            next() {
+                const result: IteratorResult<Option<never>, never> = done
+                    ? { done: true, value: undefined as never }
+                    : { done: false, value: self }
+                done = true
+                return result
+            }
+        }
+    },
+    toString() {
+        return 'None'
+    },
+    toDebugString() {
+        return 'None'
+    },
+    [Symbol.toStringTag]: 'None',
     isNone: true,
     isSome: false
 }
 
-export function Some<T>(value: T): Option<T> {
-    return {
-        match(some, _) {
-            return some(value)
-        },
-        getValueOrDefault(_) {
-            return value
-        },
-        getValueOrCompute(_) {
-            return value
-        },
-        mapOrDefault(map, _) {
-            return map(value)
-        },
-        mapOrCompute(map, _) {
-            return map(value)
-        },
-        map(fn) {
-            return Some(fn(value))
-        },
-        and(option) {
-            return option
-        },
-        andThen<U>(fn: (value: T) => Option<U>) {
-            return fn(value)
-        },
-        or(_) {
-            return this
-        },
-        orElse(_) {
-            return this
-        },
-        filter(fn) {
-            return fn(value)
-                ? this
-                : None
-        },
-        isNone: false,
-        isSome: true
+// Not part of the `Option` type, so they are attached outside of the literal and found by their registered symbols
+Object.defineProperties(None, {
+    [optionBrand]: { value: true },
+    [inspectCustom]: {
+        value(this: Option<unknown>, depth: number, options: InspectOptions, inspect?: Inspect) {
+            return inspectOption(this, depth, options, inspect)
+        }
+    }
+})
+
+/**
+ * The `Some` implementation. The value is held in a single field and the methods are shared on the prototype,
+ * so creating a `Some` allocates one small object.
+ */
+class SomeValue<T> implements SomeOption<T> {
+    constructor(readonly value: T) { }
+
+    get isNone(): false {
+        return false
+    }
+
+    get isSome(): true {
+        return true
+    }
+
+    match<U>(some: ((value: T) => U) | MatchArms<T, U>, _none?: () => U): U {
+        return typeof some === 'function' ? some(this.value) : some.Some(this.value)
+    }
+
+    getValueOrDefault(_: T): T {
+        return this.value
+    }
+
+    getValueOrCompute(_: () => T): T {
+        return this.value
+    }
+
+    mapOrDefault<U>(map: (some: T) => U, _: U): U {
+        return map(this.value)
+    }
+
+    mapOrCompute<U>(map: (some: T) => U, _: () => U): U {
+        return map(this.value)
+    }
+
+    map<U>(fn: (value: T) => U): Option<U> {
+        return new SomeValue(fn(this.value))
+    }
+
+    and<U>(option: Option<U>): Option<U> {
+        return option
+    }
+
+    andThen<U>(fn: (value: T) => Option<U>): Option<U> {
+        return fn(this.value)
+    }
+
+    or(_: Option<T>): Option<T> {
+        return this
+    }
+
+    orElse(_: () => Option<T>): Option<T> {
+        return this
+    }
+
+    filter(fn: (value: T) => boolean): Option<T> {
+        return fn(this.value)
+            ? this
+            : labelNone('filter: predicate returned false')
+    }
+
+    xor(option: Option<T>): Option<T> {
+        return option.isSome
+            ? labelNone('xor: both Options were Some')
+            : this
+    }
+
+    zip<U>(option: Option<U>): Option<[T, U]> {
+        return option.isSome
+            ? Some<[T, U]>([this.value, option.value])
+            : retypeNone(option)
+    }
+
+    zipWith<U, R>(option: Option<U>, fn: (value: T, other: U) => R): Option<R> {
+        return option.isSome
+            ? Some(fn(this.value, option.value))
+            : retypeNone(option)
     }
+
+    unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+        const [a, b] = (this as SomeValue<[A, B]>).value
+        return [Some(a), Some(b)]
+    }
+
+    flatten<U>(this: Option<Option<U>>): Option<U> {
+        return (this as SomeValue<Option<U>>).value
+    }
+
+    inspect(fn: (value: T) => void): Option<T> {
+        fn(this.value)
+        return this
+    }
+
+    isSomeAnd(fn: (value: T) => boolean): boolean {
+        return fn(this.value)
+    }
+
+    isNoneOr(fn: (value: T) => boolean): boolean {
+        return fn(this.value)
+    }
+
+    mapOr<U>(map: (some: T) => U, _: U): U {
+        return map(this.value)
+    }
+
+    mapOrElse<U>(map: (some: T) => U, _: () => U): U {
+        return map(this.value)
+    }
+
+    unwrapOr(_: T): T {
+        return this.value
+    }
+
+    unwrapOrElse(_: () => T): T {
+        return this.value
+    }
+
+    expect(_: string): T {
+        return this.value
+    }
+
+    unwrap(): T {
+        return this.value
+    }
+
+    okOr<E>(_: E): Result<T, E> {
+        return Ok(this.value)
+    }
+
+    okOrElse<E>(_: () => E): Result<T, E> {
+        return Ok(this.value)
+    }
+
+    transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+        return (this as SomeValue<Result<U, E>>).value.map(v => Some(v))
+    }
+
+    toAsync(): AsyncOption<T> {
+        return toAsyncOption<T>(this)
+    }
+
+    toJSON(): OptionJSON<T> {
+        return { $option: 'some', value: this.value }
+    }
+
+    *[Symbol.iterator](): Iterator<Option<T>, T, unknown> {
+        return this.value
+    }
+
+    toString(): string {
+        return `Some(${displayString(this.value)})`
+    }
+
+    toDebugString(): string {
+        return debugString(this)
+    }
+
+    get [Symbol.toStringTag](): 'Some' {
+        return 'Some'
+    }
+
+    [inspectCustom](depth: number, options: InspectOptions, inspect?: Inspect): string {
+        return inspectOption(this, depth, options, inspect)
+    }
+}
+
+Object.defineProperty(SomeValue.prototype, optionBrand, { value: true })
+
+export function Some<T>(value: T): Option<T> {
+    return new SomeValue(value)
+}
+
+/**
+ * Checks whether the given value is an `Option`, including Options created by another copy of the library.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is `Some` or `None`, otherwise `false`.
+ */
+export function isOption(value: unknown): value is Option<unknown> {
+    return typeof value === 'object' && value !== null
+        && (value as { [optionBrand]?: unknown })[optionBrand] === true
+}
+
+/**
+ * Checks whether the given value is a `Some`, including a `Some` created by another copy of the library.
+ * Use it instead of `isSome` when the value is not known to be an `Option`.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is `Some`, otherwise `false`.
+ */
+export function isSomeValue(value: unknown): value is SomeOption<unknown> {
+    return isOption(value) && value.isSome
+}
+
+/**
+ * Checks whether the given value is `None`, including a `None` created by another copy of the library.
+ * Use it instead of comparing with `=== None`, which only recognizes this copy's `None`.
+ *
+ * @param value - The value to check.
+ * @returns `true` if the value is `None`, otherwise `false`.
+ */
+export function isNoneValue(value: unknown): value is NoneOption<unknown> {
+    return isOption(value) && value.isNone
+}
+
+/**
+ * Checks whether the given `Option` is `Some`, narrowing it to `SomeOption<T>`.
+ *
+ * @param option - The `Option` to check.
+ * @returns `true` if the `Option` is `Some`, otherwise `false`.
+ */
+export function isSome<T>(option: Option<T>): option is SomeOption<T> {
+    return option.isSome
+}
+
+/**
+ * Checks whether the given `Option` is `None`, narrowing it to `NoneOption<T>`.
+ *
+ * @param option - The `Option` to check.
+ * @returns `true` if the `Option` is `None`, otherwise `false`.
+ */
+export function isNone<T>(option: Option<T>): option is NoneOption<T> {
+    return option.isNone
+}
+
+/**
+ * Retypes a `None` as an `Option` of another value type, e.g. to pass it on from a function returning `Option<U>`.
+ * The same `None` is returned, so its provenance recorded by diagnostics is kept.
+ *
+ * @typeparam U The type of the value of the returned `Option`.
+ * @param none - The `None` to retype.
+ * @returns The provided `None`, typed as `Option<U>`.
+ */
+export function retypeNone<U>(none: NoneOption<unknown>): Option<U> {
+    // Sound, as `None` holds no value to read back
+    return none as NoneOption<never>
 }
 
 /**
@@ -208,7 +824,7 @@ export function Some<T>(value: T): Option<T> {
  * @returns An `Option` wrapping the value or `None`.
  */
 export function fromValue<T>(value: T): Option<T> {
-    return value === null || value === undefined ? None : Some(value) as Option<T>;
+    return value === null || value === undefined ? labelNone(() => `fromValue: value was ${value}`) : Some(value) as Option<T>;
 }
 
 /**
@@ -220,7 +836,7 @@ export function fromValue<T>(value: T): Option<T> {
  * @returns An `Option` wrapping the value or `None` based on the `isNone` predicate.
  */
 export function fromValueConditional<T>(value: T, isNone: (value: T) => boolean): Option<T> {
-    return isNone(value) ? None : Some(value) as Option<T>;
+    return isNone(value) ? labelNone('fromValueConditional: isNone returned true') : Some(value) as Option<T>;
 }
 
 /**
@@ -232,7 +848,7 @@ export function fromValueConditional<T>(value: T, isNone: (value: T) => boolean)
  * @returns An `Option` wrapping the value or `None` if the value is `null`.
  */
 export function fromNullable<T>(value: T): Option<T> {
-    return value === null ? None : Some(value) as Option<T>;
+    return value === null ? labelNone('fromNullable: value was null') : Some(value) as Option<T>;
 }
 
 /**
@@ -244,7 +860,7 @@ export function fromNullable<T>(value: T): Option<T> {
  * @returns An `Option` wrapping the value or `None` if the value is `undefined`.
  */
 export function fromUndefinable<T>(value: T): Option<T> {
-    return value === undefined ? None : Some(value) as Option<T>;
+    return value === undefined ? labelNone('fromUndefinable: value was undefined') : Some(value) as Option<T>;
 }
 
 /**
@@ -254,5 +870,5 @@ export function fromUndefinable<T>(value: T): Option<T> {
  * @returns A function that accepts a value and returns an `Option` based on the `isNonePredicate`.
  */
 export function createOptionFactory<T>(isNonePredicate: (value: T) => boolean): (value: T) => Option<T> {
-    return value => isNonePredicate(value) ? None : Some(value);
+    return value => isNonePredicate(value) ? labelNone('createOptionFactory: isNonePredicate returned true') : Some(value);
 }
\ No newline at end of file
@@ -0,0 +1,127 @@
+import { Option, isOption } from "./index"
+
+/**
+ * The symbol Node's `util.inspect` looks up for custom formatting. It is registered with `Symbol.for`,
+ * so it can be used without importing `util` and is harmless outside Node.
+ */
+export const inspectCustom: unique symbol = Symbol.for('nodejs.util.inspect.custom')
+
+/**
+ * The subset of Node's `util.inspect` options the `Option` formatting relies on.
+ */
+export type InspectOptions = {
+    readonly depth: number | null
+    readonly stylize: (text: string, styleType: string) => string
+}
+
+/**
+ * Node's `util.inspect`, passed as the third argument of `[util.inspect.custom]`.
+ */
+export type Inspect = (value: unknown, options: InspectOptions) => string
+
+/**
+ * Formats an `Option` for Node's `util.inspect`, inspecting the wrapped value with the remaining depth and the caller's colors.
+ *
+ * @param option - The `Option` to format.
+ * @param depth - The remaining depth, negative when the `Option` is nested deeper than `options.depth`.
+ * @param options - The options of the `util.inspect` call.
+ * @param inspect - `util.inspect` itself, not passed by Node versions before 16.14.
+ * @returns The formatted `Option`.
+ */
+export function inspectOption(option: Option<any>, depth: number, options: InspectOptions, inspect?: Inspect): string {
+    if (option.isNone) {
+        return options.stylize('None', 'special')
+    }
+    if (depth < 0) {
+        return options.stylize('[Some]', 'special')
+    }
+    if (!inspect) {
+        return option.toDebugString()
+    }
+
+    const inner = inspect(option.value, { ...options, depth: options.depth === null ? null : options.depth - 1 })
+    return `Some(${inner})`
+}
+
+/**
+ * Formats a value for debugging, like `Some({ id: 1, tags: ["a"] })`. Nested `Option` values are formatted as
+ * `Some(...)`/`None`, strings are quoted, and references back to an enclosing object are printed as `[Circular]`.
+ *
+ * @param value - The value to format.
+ * @returns The formatted value.
+ */
+export function debugString(value: unknown): string {
+    return format(value, [])
+}
+
+/**
+ * Converts a value with `String`, falling back to `debugString` for values `String` cannot convert,
+ * like objects without a prototype or with a throwing `toString`.
+ *
+ * @param value - The value to convert.
+ * @returns The converted value.
+ */
+export function displayString(value: unknown): string {
+    try {
+        return String(value)
+    } catch (_) {
+        return debugString(value)
+    }
+}
+
+function format(value: unknown, ancestors: object[]): string {
+    switch (typeof value) {
+        case 'string':
+            return JSON.stringify(value)
+        case 'bigint':
+            return `${value}n`
+        case 'number':
+            return Object.is(value, -0) ? '-0' : String(value)
+        case 'function':
+            return `[Function ${value.name || '(anonymous)'}]`
+        case 'object':
+            return value === null ? 'null' : formatObject(value, ancestors)
+        default:
+            return String(value)
+    }
+}
+
+function formatObject(value: object, ancestors: object[]): string {
+    if (ancestors.indexOf(value) !== -1) {
+        return '[Circular]'
+    }
+    if (value instanceof Date) {
+        return isNaN(value.getTime()) ? 'Invalid Date' : value.toISOString()
+    }
+
+    const nested = ancestors.concat([value])
+        , formatNested = (item: unknown) => format(item, nested)
+
+    if (isOption(value)) {
+        return value.isSome ? `Some(${formatNested(value.value)})` : 'None'
+    }
+    if (Array.isArray(value)) {
+        return `[${value.map(formatNested).join(', ')}]`
+    }
+    if (value instanceof Map) {
+        const entries: string[] = []
+        value.forEach((item, key) => entries.push(`${formatNested(key)} => ${formatNested(item)}`))
+        return `Map(${value.size}) ${braces(entries)}`
+    }
+    if (value instanceof Set) {
+        const items: string[] = []
+        value.forEach(item => items.push(formatNested(item)))
+        return `Set(${value.size}) ${braces(items)}`
+    }
+
+    const prototype = Object.getPrototypeOf(value)
+        , name = prototype === null ? '[Object: null prototype]' : prototype === Object.prototype ? '' : prototype.constructor?.name
+        , properties = braces(Object.keys(value).map(key =>
+            `${/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key)}: ${formatNested((value as Record<string, unknown>)[key])}`))
+
+    return name ? `${name} ${properties}` : properties
+}
+
+function braces(items: string[]): string {
+    return items.length ? `{ ${items.join(', ')} }` : '{}'
+}
@@ -0,0 +1,82 @@
+import { Option } from "./index"
+import { labelNone } from "./diagnostics"
+import { all } from "./collections"
+
+/**
+ * Lazy operators over `Iterable` sources of `Option` values, exported as the `iter` namespace.
+ * Items are only pulled from the source as the result is iterated, and a source stopped early is closed with `return()`.
+ * See the `asyncIter` namespace for `AsyncIterable` sources:
+ *
+ * @example
+ * iter.filterMap(lines, line => safe.parseInt(line))
+ * iter.collectAll(iter.filterMap(rows, parseRow))
+ */
+
+/**
+ * Maps each item to an `Option` and yields the values of the `Some` results, dropping the `None` results.
+ *
+ * @param source - The items to map.
+ * @param fn - The function mapping each item to an `Option`.
+ * @returns A lazy iterator of the values of the `Some` results.
+ */
+export function* filterMap<T, U>(source: Iterable<T>, fn: (item: T, index: number) => Option<U>): IterableIterator<U> {
+    let index = 0
+
+    for (const item of source) {
+        const option = fn(item, index++)
+        if (option.isSome) {
+            yield option.value
+        }
+    }
+}
+
+/**
+ * Yields the values of the `Some` values, dropping the `None` values.
+ *
+ * @param source - The `Option` values to iterate.
+ * @returns A lazy iterator of the values of the `Some` values.
+ */
+export function somes<T>(source: Iterable<Option<T>>): IterableIterator<T> {
+    return filterMap(source, option => option)
+}
+
+/**
+ * Yields the values of the `Some` values up to the first `None`, then closes the source.
+ *
+ * @param source - The `Option` values to iterate.
+ * @returns A lazy iterator of the values of the leading `Some` values.
+ */
+export function* takeWhileSome<T>(source: Iterable<Option<T>>): IterableIterator<T> {
+    for (const option of source) {
+        if (option.isNone) {
+            return
+        }
+        yield option.value
+    }
+}
+
+/**
+ * Returns the first `Some` value, then closes the source without pulling further items.
+ *
+ * @param source - The `Option` values to search.
+ * @returns The first `Some` value, or `None` if there is none.
+ */
+export function firstSome<T>(source: Iterable<Option<T>>): Option<T> {
+    for (const option of source) {
+        if (option.isSome) {
+            return option
+        }
+    }
+
+    return labelNone('iter.firstSome: no item was Some')
+}
+
+/**
+ * Collects the values of the `Some` values, stopping at the first `None` and closing the source, like `all`.
+ *
+ * @param source - The `Option` values to collect.
+ * @returns `Some` wrapping the values if every item is `Some`, otherwise the first `None`.
+ */
+export function collectAll<T>(source: Iterable<Option<T>>): Option<T[]> {
+    return all(source)
+}
@@ -0,0 +1,90 @@
+import { Some, None } from "./index"
+
+/**
+ * The tagged wire format of an `Option`, as produced by `Option.toJSON()`.
+ * @typeparam T The type of the wrapped value.
+ */
+export type OptionJSON<T> = { readonly $option: 'some', readonly value: T } | { readonly $option: 'none' }
+
+/**
+ * The available `Option` encodings:
+ * - `tagged` - `Some(v)` is encoded as `{ "$option": "some", "value": v }` and `None` as `{ "$option": "none" }`.
+ * Round-trips through `reviveOptions`.
+ * - `nullable` - `Some(v)` is encoded as `v` and `None` as `null`.
+ * Does not round-trip - use `fromValue` on the decoded fields instead.
+ */
+export type OptionEncoding = 'tagged' | 'nullable'
+
+/**
+ * Creates a `JSON.stringify` replacer that encodes `Option` values using the provided encoding.
+ *
+ * @param encoding - The encoding to use, defaults to `tagged`.
+ * @returns A replacer function to pass to `JSON.stringify`.
+ */
+export function optionReplacer(encoding: OptionEncoding = 'tagged'): (key: string, value: unknown) => unknown {
+    return (_, value) => encoding === 'nullable' && isOptionJSON(value)
+        ? toNullable(value)
+        : value
+}
+
+/**
+ * A `JSON.parse` reviver that turns values encoded with the `tagged` encoding back into `Option` values,
+ * including nested `Option` values and `Option` values inside arrays and objects.
+ *
+ * @param _key - The key of the value being revived.
+ * @param value - The value being revived.
+ * @returns the revived `Option` if the value is a tagged `Option`, otherwise the value itself.
+ */
+export function reviveOptions(_key: string, value: unknown): unknown {
+    return isOptionJSON(value)
+        ? value.$option === 'some' ? Some(value.value) : None
+        : value
+}
+
+/**
+ * Converts a value to a JSON string, encoding any `Option` values using the provided encoding.
+ *
+ * @param value - The value to convert.
+ * @param encoding - The encoding to use, defaults to `tagged`.
+ * @param space - Passed through to `JSON.stringify` to control indentation.
+ * @returns The JSON string.
+ */
+export function stringifyOptions(value: unknown, encoding: OptionEncoding = 'tagged', space?: string | number): string {
+    return JSON.stringify(value, optionReplacer(encoding), space)
+}
+
+/**
+ * Parses a JSON string, reviving any `Option` values encoded with the `tagged` encoding.
+ *
+ * @param text - The JSON string to parse.
+ * @returns The parsed value.
+ */
+export function parseOptions<T = unknown>(text: string): T {
+    return JSON.parse(text, reviveOptions)
+}
+
+// `JSON.stringify` does not call `toJSON` on values returned by a replacer, so nested values are encoded here
+function toNullable(json: OptionJSON<unknown>): unknown {
+    if (json.$option === 'none') {
+        return null
+    }
+
+    const value = json.value
+        , encoded = hasToJSON(value) ? value.toJSON() : value
+
+    return isOptionJSON(encoded) ? toNullable(encoded) : encoded
+}
+
+function hasToJSON(value: unknown): value is { toJSON: () => unknown } {
+    return typeof value === 'object' && value !== null && typeof (value as { toJSON?: unknown }).toJSON === 'function'
+}
+
+function isOptionJSON(value: unknown): value is OptionJSON<unknown> {
+    if (typeof value !== 'object' || value === null) {
+        return false
+    }
+
+    const tag = (value as { $option?: unknown }).$option
+    return tag === 'some' || tag === 'none'
+}
+
@@ -0,0 +1,245 @@
+import { Option, OptionMethods, MatchArms, fromValue, isOption } from "./index"
+import { Result } from "./result"
+import { AsyncOption } from "./asyncOption"
+import { OptionJSON } from "./json"
+import { Inspect, InspectOptions, inspectCustom, inspectOption } from "./inspect"
+import { optionBrand } from "./brand"
+
+/**
+ * An `Option` computed on first use and cached. It can be passed anywhere an `Option` is expected -
+ * reading `isSome`, `isNone`, `value` or calling any method computes it. Once computed, reading `isSome`, `isNone` and
+ * `value` does not check the `ttl`, so checking `isSome` and then reading `value` sees the same `Option`.
+ * @typeparam T The type of the wrapped value.
+ */
+export type LazyOption<T> = Option<T> & {
+    /**
+     * Computes the `Option` if it is not cached, or its cached value expired.
+     * @returns The cached `Option`.
+     */
+    readonly force: () => Option<T>
+
+    /**
+     * `true` if the `Option` is computed and its cached value has not expired, otherwise `false`.
+     */
+    readonly isEvaluated: boolean
+
+    /**
+     * Drops the cached `Option`, so it is computed again on next use.
+     */
+    readonly reset: () => void
+}
+
+/**
+ * The settings of a `LazyOption`.
+ */
+export type LazyOptionSettings = {
+    /**
+     * How long the computed `Option` is cached, in milliseconds. Defaults to caching it until `reset` is called.
+     */
+    readonly ttl?: number
+}
+
+/**
+ * Creates a `LazyOption` from a function computing an `Option`, or a value wrapped with `fromValue` semantics.
+ * The function is called on first use of the `LazyOption`, and again after `reset` or once the `ttl` expires.
+ *
+ * @param compute - The function computing the `Option` or the value.
+ * @param settings - The settings of the `LazyOption`.
+ * @returns A `LazyOption` of the computed `Option`.
+ */
+export function lazyOption<T>(compute: () => Option<T>, settings?: LazyOptionSettings): LazyOption<T>
+export function lazyOption<T>(compute: () => T | null | undefined, settings?: LazyOptionSettings): LazyOption<T>
+export function lazyOption<T>(compute: () => Option<T> | T | null | undefined, settings: LazyOptionSettings = {}): LazyOption<T> {
+    return new LazyValue(compute, settings.ttl) as unknown as LazyOption<T>
+}
+
+class LazyValue<T> implements OptionMethods<T> {
+    private cached: Option<T> | undefined
+    private evaluatedAt = 0
+
+    constructor(private readonly compute: () => Option<T> | T | null | undefined, private readonly ttl: number | undefined) { }
+
+    get isEvaluated(): boolean {
+        return this.cached !== undefined
+            && (this.ttl === undefined || Date.now() - this.evaluatedAt < this.ttl)
+    }
+
+    force(): Option<T> {
+        if (!this.isEvaluated) {
+            const result = this.compute()
+            this.cached = isOption(result) ? result as Option<T> : fromValue(result as T)
+            this.evaluatedAt = Date.now()
+        }
+
+        return this.cached as Option<T>
+    }
+
+    reset(): void {
+        this.cached = undefined
+    }
+
+    get isSome(): boolean {
+        return this.current().isSome
+    }
+
+    get isNone(): boolean {
+        return this.current().isNone
+    }
+
+    get value(): T | undefined {
+        const option = this.current()
+        return option.isSome ? option.value : undefined
+    }
+
+    // The expiry is checked by `force` and the methods only, so a narrowing check and the following read agree
+    private current(): Option<T> {
+        return this.cached ?? this.force()
+    }
+
+    match<U>(some: ((value: T) => U) | MatchArms<T, U>, none?: () => U): U {
+        return typeof some === 'function'
+            ? this.force().match(some, none as () => U)
+            : this.force().match(some)
+    }
+
+    getValueOrDefault(defaultValue: T): T {
+        return this.force().getValueOrDefault(defaultValue)
+    }
+
+    getValueOrCompute(computeFn: () => T): T {
+        return this.force().getValueOrCompute(computeFn)
+    }
+
+    mapOrDefault<U>(map: (some: T) => U, defaultValue: U): U {
+        return this.force().mapOrDefault(map, defaultValue)
+    }
+
+    mapOrCompute<U>(map: (some: T) => U, defaultComputeFn: () => U): U {
+        return this.force().mapOrCompute(map, defaultComputeFn)
+    }
+
+    map<U>(fn: (value: T) => U): Option<U> {
+        return this.force().map(fn)
+    }
+
+    and<U>(option: Option<U>): Option<U> {
+        return this.force().and(option)
+    }
+
+    andThen<U>(fn: (value: T) => Option<U>): Option<U> {
+        return this.force().andThen(fn)
+    }
+
+    or(option: Option<T>): Option<T> {
+        return this.force().or(option)
+    }
+
+    orElse(fn: () => Option<T>): Option<T> {
+        return this.force().orElse(fn)
+    }
+
+    filter(fn: (value: T) => boolean): Option<T> {
+        return this.force().filter(fn)
+    }
+
+    xor(option: Option<T>): Option<T> {
+        return this.force().xor(option)
+    }
+
+    zip<U>(option: Option<U>): Option<[T, U]> {
+        return this.force().zip(option)
+    }
+
+    zipWith<U, R>(option: Option<U>, fn: (value: T, other: U) => R): Option<R> {
+        return this.force().zipWith(option, fn)
+    }
+
+    unzip<A, B>(this: Option<[A, B]>): [Option<A>, Option<B>] {
+        return (this as unknown as LazyValue<[A, B]>).force().unzip()
+    }
+
+    flatten<U>(this: Option<Option<U>>): Option<U> {
+        return (this as unknown as LazyValue<Option<U>>).force().flatten()
+    }
+
+    inspect(fn: (value: T) => void): Option<T> {
+        return this.force().inspect(fn)
+    }
+
+    isSomeAnd(fn: (value: T) => boolean): boolean {
+        return this.force().isSomeAnd(fn)
+    }
+
+    isNoneOr(fn: (value: T) => boolean): boolean {
+        return this.force().isNoneOr(fn)
+    }
+
+    mapOr<U>(map: (some: T) => U, defaultValue: U): U {
+        return this.force().mapOr(map, defaultValue)
+    }
+
+    mapOrElse<U>(map: (some: T) => U, computeFn: () => U): U {
+        return this.force().mapOrElse(map, computeFn)
+    }
+
+    unwrapOr(defaultValue: T): T {
+        return this.force().unwrapOr(defaultValue)
+    }
+
+    unwrapOrElse(computeFn: () => T): T {
+        return this.force().unwrapOrElse(computeFn)
+    }
+
+    expect(message: string, context?: unknown): T {
+        return this.force().expect(message, context)
+    }
+
+    unwrap(): T {
+        return this.force().unwrap()
+    }
+
+    okOr<E>(error: E): Result<T, E> {
+        return this.force().okOr(error)
+    }
+
+    okOrElse<E>(fn: () => E): Result<T, E> {
+        return this.force().okOrElse(fn)
+    }
+
+    transpose<U, E>(this: Option<Result<U, E>>): Result<Option<U>, E> {
+        return (this as unknown as LazyValue<Result<U, E>>).force().transpose()
+    }
+
+    toAsync(): AsyncOption<T> {
+        return this.force().toAsync()
+    }
+
+    toJSON(): OptionJSON<T> {
+        return this.force().toJSON()
+    }
+
+    [Symbol.iterator](): Iterator<Option<T>, T, unknown> {
+        return this.force()[Symbol.iterator]()
+    }
+
+    toString(): string {
+        return this.force().toString()
+    }
+
+    toDebugString(): string {
+        return this.force().toDebugString()
+    }
+
+    get [Symbol.toStringTag](): 'Some' | 'None' {
+        return this.force()[Symbol.toStringTag]
+    }
+
+    // Logging a `LazyOption` should not compute it
+    [inspectCustom](depth: number, options: InspectOptions, inspect?: Inspect): string {
+        return this.isEvaluated
+            ? inspectOption(this.force(), depth, options, inspect)
+            : options.stylize('LazyOption { <pending> }', 'special')
+    }
+}
+
+Object.defineProperty(LazyValue.prototype, optionBrand, { value: true })
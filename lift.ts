@@ -0,0 +1,86 @@
+import { Option, fromValue, fromUndefinable, createOptionFactory } from "./index"
+import { all } from "./collections"
+
+/**
+ * Maps a tuple of argument types to a tuple of `Option` types of them.
+ * @typeparam A The tuple of argument types.
+ */
+export type OptionArgs<A extends readonly unknown[]> = {
+    [K in keyof A]: Option<A[K]>
+}
+
+/**
+ * Turns a function returning `null` or `undefined` for missing results into one returning an `Option`,
+ * with `fromValue` semantics.
+ *
+ * @param fn - The function to lift.
+ * @returns A function with the same arguments returning `Some` wrapping the result, or `None` if it is `null` or `undefined`.
+ */
+export function liftNullable<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => Option<NonNullable<R>> {
+    return (...args) => fromValue(fn(...args)) as Option<NonNullable<R>>
+}
+
+/**
+ * Turns a function returning `undefined` for missing results into one returning an `Option`,
+ * with `fromUndefinable` semantics - a returned `null` is `Some`.
+ *
+ * @param fn - The function to lift.
+ * @returns A function with the same arguments returning `Some` wrapping the result, or `None` if it is `undefined`.
+ */
+export function liftUndefinable<A extends unknown[], R>(fn: (...args: A) => R): (...args: A) => Option<Exclude<R, undefined>> {
+    return (...args) => fromUndefinable(fn(...args)) as Option<Exclude<R, undefined>>
+}
+
+/**
+ * Turns a function into one returning an `Option`, treating results that satisfy `isNone` as missing,
+ * with the semantics of a factory from `createOptionFactory`.
+ *
+ * @param fn - The function to lift.
+ * @param isNone - Predicate function to decide if a result should be treated as `None`.
+ * @returns A function with the same arguments returning `Some` wrapping the result, or `None` if it satisfies `isNone`.
+ */
+export function liftPredicate<A extends unknown[], R>(fn: (...args: A) => R, isNone: (result: R) => boolean): (...args: A) => Option<R> {
+    const toOption = createOptionFactory(isNone)
+    return (...args) => toOption(fn(...args))
+}
+
+/**
+ * Applies the function wrapped in an `Option` to the value wrapped in another `Option`.
+ *
+ * @param fnOption - The `Option` of the function to apply.
+ * @param option - The `Option` of the value to apply the function to.
+ * @returns `Some` wrapping the result if both are `Some`, otherwise `None`.
+ */
+export function ap<T, U>(fnOption: Option<(value: T) => U>, option: Option<T>): Option<U> {
+    return fnOption.andThen(fn => option.map(fn))
+}
+
+/**
+ * Turns a function of two values into a function of two `Option` values.
+ *
+ * @param fn - The function to lift.
+ * @returns A function returning `Some` wrapping the result if both arguments are `Some`, otherwise `None`.
+ */
+export function lift2<A, B, R>(fn: (a: A, b: B) => R): (a: Option<A>, b: Option<B>) => Option<R> {
+    return (a, b) => a.andThen(x => b.map(y => fn(x, y)))
+}
+
+/**
+ * Turns a function of three values into a function of three `Option` values.
+ *
+ * @param fn - The function to lift.
+ * @returns A function returning `Some` wrapping the result if all the arguments are `Some`, otherwise `None`.
+ */
+export function lift3<A, B, C, R>(fn: (a: A, b: B, c: C) => R): (a: Option<A>, b: Option<B>, c: Option<C>) => Option<R> {
+    return (a, b, c) => a.andThen(x => b.andThen(y => c.map(z => fn(x, y, z))))
+}
+
+/**
+ * Turns a function of any number of values into a function of as many `Option` values.
+ *
+ * @param fn - The function to lift.
+ * @returns A function returning `Some` wrapping the result if all the arguments are `Some`, otherwise `None`.
+ */
+export function liftN<A extends unknown[], R>(fn: (...args: A) => R): (...options: OptionArgs<A>) => Option<R> {
+    return (...options) => all(options as Iterable<Option<unknown>>).map(args => fn(...args as A))
+}
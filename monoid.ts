@@ -0,0 +1,121 @@
+import { Option, Some, None } from "./index"
+
+/**
+ * An associative way of combining two values - `concat(concat(a, b), c)` equals `concat(a, concat(b, c))`.
+ * @typeparam T The type of the combined values.
+ */
+export type Semigroup<T> = {
+    readonly concat: (a: T, b: T) => T
+}
+
+/**
+ * A `Semigroup` with an identity value - `concat(empty, a)` and `concat(a, empty)` both equal `a`.
+ * @typeparam T The type of the combined values.
+ */
+export type Monoid<T> = Semigroup<T> & {
+    readonly empty: T
+}
+
+/**
+ * Creates a `Monoid` combining `Option` values - two `Some` values are combined with the provided `Semigroup`,
+ * and `None` is the identity, so it is skipped.
+ *
+ * @param semigroup - The `Semigroup` combining the values.
+ * @returns A `Monoid` of `Option` values with `None` as its `empty` value.
+ */
+export function getOptionMonoid<T>(semigroup: Semigroup<T>): Monoid<Option<T>> {
+    return {
+        concat: (a, b) => a.isSome && b.isSome
+            ? Some(semigroup.concat(a.value, b.value))
+            : a.isSome ? a : b,
+        empty: None
+    }
+}
+
+/**
+ * Creates a `Monoid` keeping the first `Some` of the combined `Option` values.
+ *
+ * @returns A `Monoid` of `Option` values with `None` as its `empty` value.
+ */
+export function getFirstMonoid<T>(): Monoid<Option<T>> {
+    return {
+        concat: (a, b) => a.or(b),
+        empty: None
+    }
+}
+
+/**
+ * Creates a `Monoid` keeping the last `Some` of the combined `Option` values.
+ *
+ * @returns A `Monoid` of `Option` values with `None` as its `empty` value.
+ */
+export function getLastMonoid<T>(): Monoid<Option<T>> {
+    return {
+        concat: (a, b) => b.or(a),
+        empty: None
+    }
+}
+
+/**
+ * Combines all the values of an iterable with the provided `Monoid`, from first to last.
+ *
+ * @param monoid - The `Monoid` combining the values.
+ * @param values - The values to combine.
+ * @returns The combined value, or the `empty` value of the `Monoid` if there are no values.
+ */
+export function concatAll<T>(monoid: Monoid<T>, values: Iterable<T>): T {
+    let result = monoid.empty
+    for (const value of values) {
+        result = monoid.concat(result, value)
+    }
+    return result
+}
+
+/**
+ * Combines numbers by adding them.
+ */
+export const sumMonoid: Monoid<number> = {
+    concat: (a, b) => a + b,
+    empty: 0
+}
+
+/**
+ * Combines numbers by multiplying them.
+ */
+export const productMonoid: Monoid<number> = {
+    concat: (a, b) => a * b,
+    empty: 1
+}
+
+/**
+ * Combines numbers by keeping the smallest.
+ */
+export const minSemigroup: Semigroup<number> = {
+    concat: (a, b) => Math.min(a, b)
+}
+
+/**
+ * Combines numbers by keeping the largest.
+ */
+export const maxSemigroup: Semigroup<number> = {
+    concat: (a, b) => Math.max(a, b)
+}
+
+/**
+ * Combines strings by concatenating them.
+ */
+export const stringMonoid: Monoid<string> = {
+    concat: (a, b) => a + b,
+    empty: ''
+}
+
+/**
+ * Creates a `Semigroup` shallowly merging objects, the properties of the second object override those of the first.
+ *
+ * @returns A `Semigroup` of objects.
+ */
+export function getMergeSemigroup<T extends object>(): Semigroup<T> {
+    return {
+        concat: (a, b) => ({ ...a, ...b })
+    }
+}
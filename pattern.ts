@@ -0,0 +1,171 @@
+import { Option, NoneOption, Some, isOption } from "./index"
+import { OptionValues } from "./collections"
+import { equals } from "./equality"
+
+/**
+ * The wildcard pattern of `matchAll`, matching both `Some` and `None`.
+ */
+export const Any: unique symbol = Symbol('Any')
+
+/**
+ * A pattern matching one `Option<T>` in an arm of `matchAll`:
+ * - `Some` matches any `Some`, `None` matches `None` and `Any` matches both.
+ * - `Some(value)` matches a `Some` with a deeply equal value.
+ * - `Some(value => ...)` matches a `Some` whose value satisfies the guard.
+ * @typeparam T The type of the value of the matched `Option`.
+ */
+export type OptionPattern<T> = typeof Some | typeof Any | Option<T> | Option<(value: T) => boolean>
+
+/**
+ * Maps a tuple of value types to a tuple of patterns matching `Option` values of them.
+ * @typeparam Ts The tuple of value types.
+ */
+export type OptionPatterns<Ts extends readonly unknown[]> = {
+    readonly [K in keyof Ts]: OptionPattern<Ts[K]>
+}
+
+/**
+ * Maps the patterns of an arm to the arguments of its handler - the value for `Some` patterns, `undefined` for `None`
+ * and the `Option` itself for `Any`.
+ * @typeparam P The tuple of patterns.
+ * @typeparam Ts The tuple of value types.
+ */
+export type PatternArgs<P extends readonly unknown[], Ts extends readonly unknown[]> = {
+    -readonly [K in keyof P]: K extends keyof Ts ? PatternArg<P[K], Ts[K]> : never
+}
+
+/**
+ * The `matchAll` builder. Add arms with `with`, then run the first matching arm with `exhaustive`,
+ * which only compiles once every combination of `Some` and `None` is handled, or with `otherwise`.
+ * @typeparam Ts The tuple of the value types of the matched Options.
+ * @typeparam Remaining The union of the combinations of variants no arm fully handles yet, e.g. `['Some', 'None']`.
+ * @typeparam R The union of the types returned by the arms.
+ */
+export type OptionMatcher<Ts extends readonly unknown[], Remaining, R> = {
+    /**
+     * Adds an arm, tried after the arms added before it.
+     *
+     * @param patterns - One pattern per matched `Option`.
+     * @param handler - The function called when the arm matches, passed one argument per matched `Option`.
+     * @returns The builder with the arm added.
+     */
+    readonly with: <const P extends OptionPatterns<Ts> & readonly unknown[], U>(patterns: P, handler: (...args: Extract<PatternArgs<P, Ts>, unknown[]>) => U)
+        => OptionMatcher<Ts, Exclude<Remaining, CoveredCombinations<P>>, R | U>
+
+    /**
+     * Runs the first matching arm. It is only callable once the arms handle every combination of `Some` and `None` -
+     * arms with literal or guard patterns do not count, as they may not match.
+     * @returns The result of the matching arm.
+     */
+    readonly exhaustive: [Remaining] extends [never] ? () => R : NonExhaustive<Remaining>
+
+    /**
+     * Runs the first matching arm, or the fallback if no arm matches.
+     *
+     * @param fallback - The function called if no arm matches.
+     * @returns The result of the matching arm or of the fallback.
+     */
+    readonly otherwise: <U>(fallback: () => U) => R | U
+}
+
+/**
+ * The type of `exhaustive` while some combinations are not handled, listing them in the compiler error.
+ * @typeparam Remaining The combinations of variants that are not handled.
+ */
+export type NonExhaustive<Remaining> = {
+    readonly error: 'Not every combination of Some and None is handled'
+    readonly unhandled: Remaining
+}
+
+/**
+ * Matches several `Option` values at once against arms of patterns, checking at compile time that
+ * every combination of `Some` and `None` is handled.
+ *
+ * @example
+ * matchAll([user, settings])
+ *     .with([Some, Some(s => s.darkMode)], (user, _) => `${user.name} (dark)`)
+ *     .with([Some, Any], (user, _) => user.name)
+ *     .with([None, Any], () => 'Guest')
+ *     .exhaustive()
+ *
+ * @param options - The `Option` values to match.
+ * @returns A builder to add the arms to.
+ */
+export function matchAll<Ts extends readonly Option<unknown>[] | []>(options: Ts): OptionMatcher<OptionValues<Ts>, Combinations<Ts>, never> {
+    return new Matcher(options, []) as unknown as OptionMatcher<OptionValues<Ts>, Combinations<Ts>, never>
+}
+
+type Variant = 'Some' | 'None'
+
+type Combinations<Ts extends readonly unknown[]> = Ts extends readonly [unknown, ...infer Rest]
+    ? ['Some', ...Combinations<Rest>] | ['None', ...Combinations<Rest>]
+    : Ts extends readonly [] ? [] : Variant[]
+
+// `None` is typed `NoneOption`, which tells it apart from `Some(value)` patterns typed `Option<T>`
+type CoveredVariants<P> = P extends typeof Any ? Variant
+    : P extends typeof Some ? 'Some'
+    : [P] extends [NoneOption<unknown>] ? 'None'
+    : never
+
+type CoveredCombinations<P extends readonly unknown[]> = {
+    -readonly [K in keyof P]: CoveredVariants<P[K]>
+}
+
+type PatternArg<P, T> = P extends typeof Any ? Option<T>
+    : P extends typeof Some ? T
+    : [P] extends [NoneOption<unknown>] ? undefined
+    : P extends Option<unknown> ? T
+    : never
+
+type Arm = {
+    readonly patterns: readonly unknown[]
+    readonly handler: (...args: unknown[]) => unknown
+}
+
+class Matcher {
+    constructor(private readonly options: readonly Option<unknown>[], private readonly arms: readonly Arm[]) { }
+
+    with(patterns: readonly unknown[], handler: (...args: unknown[]) => unknown): Matcher {
+        return new Matcher(this.options, this.arms.concat([{ patterns, handler }]))
+    }
+
+    exhaustive(): unknown {
+        return this.otherwise(() => {
+            throw new Error('No arm of matchAll matched')
+        })
+    }
+
+    otherwise(fallback: () => unknown): unknown {
+        for (const arm of this.arms) {
+            if (this.options.every((option, index) => matches(option, arm.patterns[index]))) {
+                return arm.handler(...this.options.map((option, index) => argFor(option, arm.patterns[index])))
+            }
+        }
+
+        return fallback()
+    }
+}
+
+function matches(option: Option<unknown>, pattern: unknown): boolean {
+    if (pattern === Any) {
+        return true
+    }
+    if (pattern === Some) {
+        return option.isSome
+    }
+    if (!isOption(pattern) || pattern.isNone) {
+        return option.isNone
+    }
+
+    return option.isSome && (typeof pattern.value === 'function'
+        ? Boolean(pattern.value(option.value))
+        : equals(option, pattern, 'deep'))
+}
+
+function argFor(option: Option<unknown>, pattern: unknown): unknown {
+    if (pattern === Any) {
+        return option
+    }
+
+    return option.isSome ? option.value : undefined
+}
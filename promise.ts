@@ -0,0 +1,154 @@
+import { Option, Some, fromValue, fromValueConditional, retypeNone } from "./index"
+import { labelNone } from "./diagnostics"
+import { AsyncOption, Awaitable, toAsyncOption } from "./asyncOption"
+
+/**
+ * The settings of `fromPromise`.
+ * @typeparam T The type of the resolved value.
+ */
+export type FromPromiseSettings<T> = {
+    /**
+     * How long to wait for the promise, in milliseconds, before resolving to `None`. Defaults to waiting indefinitely.
+     */
+    readonly timeoutMs?: number
+
+    /**
+     * A signal that resolves the result to `None` when aborted.
+     */
+    readonly signal?: AbortSignal
+
+    /**
+     * Decides if the resolved value should be treated as `None`, like `fromValueConditional`.
+     * Defaults to `fromValue` semantics, treating `null` and `undefined` as `None`.
+     */
+    readonly isNone?: (value: T) => boolean
+}
+
+/**
+ * Maps a tuple of promises of `Option` values to a tuple of the types of their values.
+ * @typeparam T The tuple of promises.
+ */
+export type AwaitedOptionValues<T extends readonly unknown[]> = {
+    -readonly [K in keyof T]: Awaited<T[K]> extends Option<infer V> ? V : never
+}
+
+/**
+ * Creates an `AsyncOption` from a promise that might reject, never settle or resolve to `null`.
+ *
+ * @example
+ * fromPromise(fetchUser(id), { timeoutMs: 5000, signal: request.signal })
+ *
+ * @param promise - The promise to wait for.
+ * @param settings - The timeout, abort signal and `None` predicate.
+ * @returns An `AsyncOption` of the resolved value, or of `None` if the promise rejects, times out, the signal is aborted,
+ * the value is treated as `None` or `isNone` throws.
+ */
+export function fromPromise<T>(promise: Awaitable<T>, settings: FromPromiseSettings<T> = {}): AsyncOption<T> {
+    const { timeoutMs, signal, isNone } = settings
+
+    return toAsyncOption(new Promise<Option<T>>(resolve => {
+        let timer: ReturnType<typeof setTimeout> | undefined
+
+        const settle = (option: Option<T>) => {
+            clearTimeout(timer)
+            if (signal) {
+                signal.removeEventListener('abort', onAbort)
+            }
+            resolve(option)
+        }
+        const onAbort = () => settle(labelNone('fromPromise: the signal was aborted'))
+
+        // Handled before checking the signal, so a promise rejecting after an early abort is not left unhandled
+        const pending = Promise.resolve(promise) as Promise<T>
+        pending.then(
+            value => settle(isNone ? fromValueConditional(value, isNone) : fromValue(value)),
+            () => settle(labelNone('fromPromise: the promise rejected'))
+        ).then(undefined, () => settle(labelNone('fromPromise: isNone threw')))
+
+        if (signal) {
+            if (signal.aborted) {
+                return onAbort()
+            }
+            signal.addEventListener('abort', onAbort)
+        }
+        if (timeoutMs !== undefined) {
+            timer = setTimeout(() => settle(labelNone(() => `fromPromise: timed out after ${timeoutMs}ms`)), timeoutMs)
+        }
+    }))
+}
+
+/**
+ * Starts every task and resolves to the first `Some` any of them returns, then aborts the others
+ * through the `AbortSignal` passed to each task. A rejected task counts as `None`.
+ *
+ * @example
+ * firstSomeOf([
+ *     signal => fromPromise(fetchFromCache(key, { signal })),
+ *     signal => fromPromise(fetchFromOrigin(key, { signal }))
+ * ])
+ *
+ * @param tasks - The functions starting each task, passed the signal aborted once a `Some` is found.
+ * @returns An `AsyncOption` of the first `Some`, or of `None` if every task returns `None`.
+ */
+export function firstSomeOf<T>(tasks: Iterable<(signal: AbortSignal) => Awaitable<Option<T>>>): AsyncOption<T> {
+    const controller = new AbortController()
+        , results = Array.from(tasks, task => settleTask('firstSomeOf', () => task(controller.signal)))
+
+    return toAsyncOption(new Promise<Option<T>>(resolve => {
+        let remaining = results.length
+
+        if (remaining === 0) {
+            return resolve(labelNone('firstSomeOf: no tasks were provided'))
+        }
+
+        for (const result of results) {
+            result.then(option => {
+                if (option.isSome) {
+                    controller.abort()
+                    resolve(option)
+                } else if (--remaining === 0) {
+                    resolve(labelNone('firstSomeOf: every task returned None'))
+                }
+            })
+        }
+    }))
+}
+
+/**
+ * Waits for every promise and resolves to `Some` wrapping all their values if all resolve to `Some`.
+ * Resolves to `None` as soon as any of them resolves to `None` or rejects, without waiting for the others.
+ *
+ * @param promises - The `Option` values or promises of them to wait for.
+ * @returns An `AsyncOption` of the values in the order of the promises, or of the first `None`.
+ */
+export function allSome<T extends readonly Awaitable<Option<unknown>>[] | []>(promises: T): AsyncOption<AwaitedOptionValues<T>>
+export function allSome<T>(promises: Iterable<Awaitable<Option<T>>>): AsyncOption<T[]>
+export function allSome<T>(promises: Iterable<Awaitable<Option<T>>>): AsyncOption<T[]> {
+    const results = Array.from(promises, promise => settleTask('allSome', () => promise))
+
+    return toAsyncOption(new Promise<Option<T[]>>(resolve => {
+        const values: T[] = new Array(results.length)
+        let remaining = results.length
+
+        if (remaining === 0) {
+            return resolve(Some(values))
+        }
+
+        results.forEach((result, index) => result.then(option => {
+            if (option.isNone) {
+                return resolve(retypeNone(option))
+            }
+
+            values[index] = option.value
+            if (--remaining === 0) {
+                resolve(Some(values))
+            }
+        }))
+    }))
+}
+
+// Turns synchronous throws and rejections into `None`
+function settleTask<T>(name: string, task: () => Awaitable<Option<T>>): Promise<Option<T>> {
+    return new Promise<Option<T>>(resolve => resolve(task()))
+        .then(option => option, () => labelNone(() => `${name}: a promise rejected`))
+}
@@ -0,0 +1,272 @@
+import { Option, Some } from "./index"
+import { labelNone } from "./diagnostics"
+
+/**
+ * Represents the outcome of an operation that can either succeed with `Ok` wrapping a value
+ * or fail with `Err` wrapping an error.
+ * @typeparam T The type of the success value.
+ * @typeparam E The type of the error value.
+ */
+export type Result<T, E> = {
+    /**
+     * Applies the provided callbacks to the contents of this `Result`
+     * depending on its variant and returns the result of the called
+     * function.
+     *
+     * @typeparam U The type of the value returned by the callbacks.
+     * @param ok - The callback to apply if this `Result` is `Ok`, and will be passed the value.
+     * @param err - The callback to apply if this `Result` is `Err`, and will be passed the error.
+     * @returns The result of either `ok(value)` or `err(error)`.
+     */
+    readonly match: <U>(ok: (value: T) => U, err: (error: E) => U) => U
+
+    /**
+     * Returns the value of this `Result` if it is `Ok`, otherwise
+     * returns the provided `defaultValue`.
+     *
+     * @param defaultValue - The default value to return if this `Result` is `Err`.
+     * @returns The value of this `Result` if it is `Ok`, otherwise `defaultValue`.
+     */
+    getValueOrDefault(defaultValue: T): T
+
+    /**
+     * Returns the value of this `Result` if it is `Ok`, or computes a value from the error using the
+     * provided function if it is `Err`.
+     *
+     * @param computeFn - The function to compute a value if this `Result` is `Err`, and will be passed the error.
+     * @returns The value of this `Result` if it is `Ok`, otherwise the result of `computeFn(error)`.
+     */
+    getValueOrCompute(computeFn: (error: E) => T): T
+
+    /**
+     * Applies a mapping function to the value of this `Result` if it is `Ok`, otherwise returns the provided `defaultValue`.
+     *
+     * @typeparam U The type of the mapped value.
+     * @param map - The function to apply to the value of this `Result` if it is `Ok`.
+     * @param defaultValue - The value to return if this `Result` is `Err`.
+     * @returns The result of applying `map` to the value if it is `Ok`, otherwise `defaultValue`.
+     */
+    readonly mapOrDefault: <U>(map: (value: T) => U, defaultValue: U) => U
+
+    /**
+     * Applies a mapping function to the value of this `Result` if it is `Ok`, or computes a value from the error if it is `Err`.
+     *
+     * @typeparam U The type of the mapped value.
+     * @param map - The function to apply to the value of this `Result` if it is `Ok`.
+     * @param computeFn - The function to compute a value if this `Result` is `Err`, and will be passed the error.
+     * @returns The result of applying `map` to the value if it is `Ok`, otherwise the result of `computeFn(error)`.
+     */
+    readonly mapOrCompute: <U>(map: (value: T) => U, computeFn: (error: E) => U) => U
+
+    /**
+     * Applies a function to the value of this `Result` if it is `Ok`, and returns the result wrapped in a new `Ok`.
+     * If the result is `Err`, returns `this`.
+     *
+     * @typeparam U The type of the mapped value.
+     * @param fn - The function to apply to the value of this `Result` if it is `Ok`.
+     * @returns a new `Result` with the result of applying `fn` if it is `Ok`, otherwise the same `Err`.
+     */
+    readonly map: <U>(fn: (value: T) => U) => Result<U, E>
+
+    /**
+     * Applies a function to the error of this `Result` if it is `Err`, and returns the result wrapped in a new `Err`.
+     * If the result is `Ok`, returns `this`.
+     *
+     * @typeparam F The type of the mapped error.
+     * @param fn - The function to apply to the error of this `Result` if it is `Err`.
+     * @returns a new `Result` with the result of applying `fn` if it is `Err`, otherwise the same `Ok`.
+     */
+    readonly mapErr: <F>(fn: (error: E) => F) => Result<T, F>
+
+    /**
+     * Returns the provided `Result` if this `Result` is `Ok`, otherwise returns `this`.
+     *
+     * @typeparam U The type of the value of the other `Result`.
+     * @param result - The `Result` to return if this `Result` is `Ok`.
+     * @returns the provided `Result` if this `Result` is `Ok`, otherwise the same `Err`.
+     */
+    readonly and: <U>(result: Result<U, E>) => Result<U, E>
+
+    /**
+     * Returns the result of calling the provided function if this `Result` is `Ok`, otherwise returns `this`.
+     *
+     * @typeparam U The type of the value of the returned `Result`.
+     * @param fn - The function to call if this `Result` is `Ok`.
+     * @returns the result of calling the provided function if this `Result` is `Ok`, otherwise the same `Err`.
+     */
+    readonly andThen: <U>(fn: (value: T) => Result<U, E>) => Result<U, E>
+
+    /**
+     * Returns `this` if it is `Ok`, otherwise returns the provided `Result`.
+     *
+     * @param result - The `Result` to return if this `Result` is `Err`.
+     * @returns `this` if it is `Ok`, otherwise the provided `Result`.
+     */
+    or(result: Result<T, E>): Result<T, E>
+
+    /**
+     * Returns `this` if it is `Ok`, otherwise returns the result of calling the provided function.
+     *
+     * @param fn - The function to call if this `Result` is `Err`.
+     * @returns `this` if it is `Ok`, otherwise the result of calling the provided function.
+     */
+    orElse(fn: () => Result<T, E>): Result<T, E>
+
+    /**
+     * Returns `this` if it is `Ok`, otherwise returns the result of calling the provided function with the error.
+     *
+     * @typeparam F The type of the error of the returned `Result`.
+     * @param fn - The function to call if this `Result` is `Err`, and will be passed the error.
+     * @returns `this` if it is `Ok`, otherwise the result of calling `fn(error)`.
+     */
+    orElseErr<F>(fn: (error: E) => Result<T, F>): Result<T, F>
+
+    /**
+     * Converts this `Result` into an `Option` of its value, discarding the error.
+     * @returns `Some` wrapping the value if this `Result` is `Ok`, otherwise `None`.
+     */
+    readonly ok: () => Option<T>
+
+    /**
+     * Converts this `Result` into an `Option` of its error, discarding the value.
+     * @returns `Some` wrapping the error if this `Result` is `Err`, otherwise `None`.
+     */
+    readonly err: () => Option<E>
+
+    /**
+     * Transposes a `Result` of an `Option` into an `Option` of a `Result`.
+     * `Ok(None)` is mapped to `None`, `Ok(Some(v))` to `Some(Ok(v))` and `Err(e)` to `Some(Err(e))`.
+     *
+     * @typeparam U The type of the value wrapped by the inner `Option`.
+     * @returns an `Option` of a `Result`.
+     */
+    readonly transpose: <U>(this: Result<Option<U>, E>) => Option<Result<U, E>>
+
+    /**
+     * Returns `true` if this `Result` is `Ok`, otherwise `false`.
+     * @returns `true` if this `Result` is `Ok`, otherwise `false`.
+     */
+    readonly isOk: boolean
+
+    /**
+     * Returns `true` if this `Result` is `Err`, otherwise `false`.
+     * @returns `true` if this `Result` is `Err`, otherwise `false`.
+     */
+    readonly isErr: boolean
+}
+
+/**
+ * Creates a successful `Result` wrapping the provided value.
+ *
+ * @param value - The value to be wrapped in an `Ok`.
+ * @returns an `Ok` wrapping the value.
+ */
+export function Ok<T, E = never>(value: T): Result<T, E> {
+    return {
+        match(ok, _) {
+            return ok(value)
+        },
+        getValueOrDefault(_) {
+            return value
+        },
+        getValueOrCompute(_) {
+            return value
+        },
+        mapOrDefault(map, _) {
+            return map(value)
+        },
+        mapOrCompute(map, _) {
+            return map(value)
+        },
+        map(fn) {
+            return Ok(fn(value))
+        },
+        mapErr<F>(_: (error: E) => F) {
+            return this as unknown as Result<T, F>
+        },
+        and(result) {
+            return result
+        },
+        andThen(fn) {
+            return fn(value)
+        },
+        or(_) {
+            return this
+        },
+        orElse(_) {
+            return this
+        },
+        orElseErr<F>(_: (error: E) => Result<T, F>) {
+            return this as unknown as Result<T, F>
+        },
+        ok() {
+            return Some(value)
+        },
+        err() {
+            return labelNone('err: the Result was Ok')
+        },
+        transpose<U>() {
+            return (value as unknown as Option<U>).map(v => Ok<U, E>(v))
+        },
+        isOk: true,
+        isErr: false
+    }
+}
+
+/**
+ * Creates a failed `Result` wrapping the provided error.
+ *
+ * @param error - The error to be wrapped in an `Err`.
+ * @returns an `Err` wrapping the error.
+ */
+export function Err<E, T = never>(error: E): Result<T, E> {
+    return {
+        match(_, err) {
+            return err(error)
+        },
+        getValueOrDefault(defaultValue) {
+            return defaultValue
+        },
+        getValueOrCompute(computeFn) {
+            return computeFn(error)
+        },
+        mapOrDefault(_, defaultValue) {
+            return defaultValue
+        },
+        mapOrCompute(_, computeFn) {
+            return computeFn(error)
+        },
+        map<U>(_: (value: T) => U) {
+            return this as unknown as Result<U, E>
+        },
+        mapErr(fn) {
+            return Err(fn(error))
+        },
+        and<U>(_: Result<U, E>) {
+            return this as unknown as Result<U, E>
+        },
+        andThen<U>(_: (value: T) => Result<U, E>) {
+            return this as unknown as Result<U, E>
+        },
+        or(result) {
+            return result
+        },
+        orElse(fn) {
+            return fn()
+        },
+        orElseErr(fn) {
+            return fn(error)
+        },
+        ok() {
+            return labelNone('ok: the Result was Err')
+        },
+        err() {
+            return Some(error)
+        },
+        transpose<U>() {
+            return Some(Err<E, U>(error))
+        },
+        isOk: false,
+        isErr: true
+    }
+}
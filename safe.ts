@@ -0,0 +1,201 @@
+import { Option, Some, fromValue, fromValueConditional, tryCatch } from "./index"
+import { labelNone } from "./diagnostics"
+
+/**
+ * `Option` returning versions of partial standard library functions, exported as the `safe` namespace:
+ *
+ * @example
+ * safe.find(users, user => user.id === id).map(user => user.name)
+ * safe.parseInt(input).filter(n => n > 0)
+ */
+
+/**
+ * Returns the first item satisfying the predicate, like `Array.prototype.find`.
+ * Unlike `fromValue(items.find(...))`, a found `null` or `undefined` item is `Some`.
+ *
+ * @param items - The array to search.
+ * @param predicate - The predicate the item should satisfy.
+ * @returns `Some` wrapping the first matching item, otherwise `None`.
+ */
+export function find<T, S extends T>(items: readonly T[], predicate: (item: T, index: number) => item is S): Option<S>
+export function find<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): Option<T>
+export function find<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): Option<T> {
+    const index = items.findIndex((item, index) => predicate(item, index))
+
+    return index === -1
+        ? labelNone('safe.find: no item satisfied the predicate')
+        : Some(items[index] as T)
+}
+
+/**
+ * Returns the last item satisfying the predicate, like `Array.prototype.findLast`.
+ *
+ * @param items - The array to search.
+ * @param predicate - The predicate the item should satisfy.
+ * @returns `Some` wrapping the last matching item, otherwise `None`.
+ */
+export function findLast<T, S extends T>(items: readonly T[], predicate: (item: T, index: number) => item is S): Option<S>
+export function findLast<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): Option<T>
+export function findLast<T>(items: readonly T[], predicate: (item: T, index: number) => boolean): Option<T> {
+    for (let index = items.length - 1; index >= 0; index--) {
+        if (predicate(items[index] as T, index)) {
+            return Some(items[index] as T)
+        }
+    }
+
+    return labelNone('safe.findLast: no item satisfied the predicate')
+}
+
+/**
+ * Returns the item at the index, like `Array.prototype.at` - negative indexes count back from the end.
+ *
+ * @param items - The array to read.
+ * @param index - The index of the item.
+ * @returns `Some` wrapping the item if the index is in bounds, otherwise `None`.
+ */
+export function at<T>(items: readonly T[], index: number): Option<T> {
+    const position = index < 0 ? items.length + index : index
+
+    return Number.isInteger(position) && position >= 0 && position < items.length
+        ? Some(items[position] as T)
+        : labelNone(() => `safe.at: index ${index} was out of bounds`)
+}
+
+/**
+ * Returns the first item of the array.
+ *
+ * @param items - The array to read.
+ * @returns `Some` wrapping the first item, or `None` if the array is empty.
+ */
+export function first<T>(items: readonly T[]): Option<T> {
+    return at(items, 0)
+}
+
+/**
+ * Returns the last item of the array.
+ *
+ * @param items - The array to read.
+ * @returns `Some` wrapping the last item, or `None` if the array is empty.
+ */
+export function last<T>(items: readonly T[]): Option<T> {
+    return at(items, -1)
+}
+
+/**
+ * Returns the index of the first item equal to the provided item, like `Array.prototype.indexOf`.
+ *
+ * @param items - The array to search.
+ * @param item - The item to look for, compared with `===`.
+ * @param fromIndex - The index to start searching from.
+ * @returns `Some` wrapping the index, or `None` if the item is not found.
+ */
+export function indexOf<T>(items: readonly T[], item: T, fromIndex?: number): Option<number> {
+    return fromValueConditional(items.indexOf(item, fromIndex), index => index === -1)
+}
+
+/**
+ * Returns the value stored for the key. Unlike `fromValue(map.get(key))`, a stored `undefined` is `Some`.
+ *
+ * @param map - The map to read.
+ * @param key - The key to look up.
+ * @returns `Some` wrapping the stored value if the map has the key, otherwise `None`.
+ */
+export function mapGet<K, V>(map: ReadonlyMap<K, V>, key: K): Option<V> {
+    return map.has(key)
+        ? Some(map.get(key) as V)
+        : labelNone('safe.mapGet: the map did not have the key')
+}
+
+/**
+ * Returns the value of an own property of the object, ignoring inherited properties like `toString`.
+ *
+ * @param record - The object to read.
+ * @param key - The property to look up.
+ * @returns `Some` wrapping the value if the object has the own property, otherwise `None`.
+ */
+export function getOwn<T extends object, K extends keyof T>(record: T, key: K): Option<T[K]> {
+    return Object.prototype.hasOwnProperty.call(record, key)
+        ? Some(record[key])
+        : labelNone('safe.getOwn: the object did not have the own property')
+}
+
+/**
+ * Parses an integer, like `parseInt`.
+ *
+ * @param text - The text to parse.
+ * @param radix - The base of the number, defaults to `10`.
+ * @returns `Some` wrapping the parsed integer, or `None` if the text does not start with one.
+ */
+export function parseInt(text: string, radix: number = 10): Option<number> {
+    return fromValueConditional(Number.parseInt(text, radix), Number.isNaN)
+}
+
+/**
+ * Parses a floating point number, like `parseFloat`.
+ *
+ * @param text - The text to parse.
+ * @returns `Some` wrapping the parsed number, or `None` if the text does not start with one.
+ */
+export function parseFloat(text: string): Option<number> {
+    return fromValueConditional(Number.parseFloat(text), Number.isNaN)
+}
+
+/**
+ * Converts the whole text to a number, like `Number`. Unlike `Number`, blank text is `None` instead of `0`.
+ *
+ * @param text - The text to convert.
+ * @returns `Some` wrapping the number, or `None` if the text is blank or not a number.
+ */
+export function parseNumber(text: string): Option<number> {
+    return text.trim() === ''
+        ? labelNone('safe.parseNumber: the text was blank')
+        : fromValueConditional(Number(text), Number.isNaN)
+}
+
+/**
+ * Parses JSON, like `JSON.parse`. Valid JSON is always `Some`, even `null`.
+ *
+ * @typeparam T The type of the parsed value, not checked at runtime.
+ * @param text - The JSON to parse.
+ * @param reviver - The reviver passed to `JSON.parse`.
+ * @returns `Some` wrapping the parsed value, or `None` if the text is not valid JSON.
+ */
+export function parseJSON<T = unknown>(text: string, reviver?: (this: any, key: string, value: any) => any): Option<T> {
+    // Wrapped in `Some` first, so a parsed `null` is not turned into `None`
+    return tryCatch(() => Some<T>(JSON.parse(text, reviver)), SyntaxError).flatten()
+}
+
+/**
+ * Parses a URL, like `new URL`.
+ *
+ * @param url - The absolute URL, or a relative URL if `base` is provided.
+ * @param base - The base URL to resolve a relative `url` against.
+ * @returns `Some` wrapping the parsed `URL`, or `None` if it is invalid.
+ */
+export function parseURL(url: string, base?: string | URL): Option<URL> {
+    // `new URL` only throws for invalid input, and the `TypeError` it throws may come from another realm
+    return tryCatch(() => new URL(url, base))
+}
+
+/**
+ * Parses a date, like `new Date`.
+ *
+ * @param value - The date string or timestamp to parse.
+ * @returns `Some` wrapping the `Date`, or `None` if it is an invalid date.
+ */
+export function parseDate(value: string | number): Option<Date> {
+    return fromValueConditional(new Date(value), date => Number.isNaN(date.getTime()))
+}
+
+/**
+ * Matches the regular expression against the text, like `RegExp.prototype.exec`, and returns its named groups.
+ * As with `exec`, a global or sticky regular expression starts from and updates its `lastIndex`.
+ *
+ * @param regex - The regular expression, with named groups like `(?<year>\d{4})`.
+ * @param text - The text to match.
+ * @returns `Some` wrapping the named groups - groups that did not participate are `undefined` - or `None` if there is no match.
+ */
+export function execGroups(regex: RegExp, text: string): Option<Record<string, string | undefined>> {
+    return fromValue(regex.exec(text))
+        .map(match => (match as { groups?: Record<string, string | undefined> }).groups || {})
+}
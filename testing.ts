@@ -0,0 +1,197 @@
+import fc from "fast-check"
+import { Option, NoneOption, Some, None, isOption } from "./index"
+import { Equality, equals } from "./equality"
+
+/**
+ * Test helpers for code using `Option` - Jest matchers, fast-check arbitraries and law checks.
+ *
+ * @example
+ * expect.extend(optionMatchers)
+ *
+ * expect(parse("5")).toBeSomeWith(5)
+ * fc.assert(monadLeftIdentityLaw(fc.string(), parse))
+ */
+
+declare global {
+    namespace jest {
+        interface Matchers<R, T = {}> {
+            /**
+             * Checks that the received value is a `Some`.
+             */
+            toBeSome(): R
+
+            /**
+             * Checks that the received value is a `Some` whose value recursively equals the provided value.
+             */
+            toBeSomeWith(value: unknown): R
+
+            /**
+             * Checks that the received value is `None`.
+             */
+            toBeNone(): R
+
+            /**
+             * Checks that the received value is an `Option` recursively equal to the provided `Option`.
+             */
+            toEqualOption(other: Option<unknown>): R
+        }
+    }
+}
+
+/**
+ * Jest matchers for `Option` values, printing them as `Some(value)` and `None` in failure messages.
+ * Register them with `expect.extend(optionMatchers)`.
+ */
+export const optionMatchers = {
+    toBeSome(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+        const pass = isOption(received) && received.isSome
+        return {
+            pass,
+            message: () => failure(this, 'toBeSome', '', `Expected: ${this.isNot ? 'not ' : ''}Some(_)`, received)
+        }
+    },
+
+    toBeSomeWith(this: jest.MatcherContext, received: unknown, value: unknown): jest.CustomMatcherResult {
+        const pass = isOption(received) && received.isSome && this.equals(received.value, value)
+        return {
+            pass,
+            message: () => difference(this, 'toBeSomeWith', 'value', Some(value), received)
+        }
+    },
+
+    toBeNone(this: jest.MatcherContext, received: unknown): jest.CustomMatcherResult {
+        const pass = isOption(received) && received.isNone
+        return {
+            pass,
+            message: () => failure(this, 'toBeNone', '', `Expected: ${this.isNot ? 'not ' : ''}None`, received)
+        }
+    },
+
+    toEqualOption(this: jest.MatcherContext, received: unknown, other: Option<unknown>): jest.CustomMatcherResult {
+        const pass = isOption(received) && equals(received, other, (a, b) => this.equals(a, b))
+        return {
+            pass,
+            message: () => difference(this, 'toEqualOption', 'other', other, received)
+        }
+    }
+}
+
+function failure(context: jest.MatcherContext, matcherName: string, expected: string, expectation: string, received: unknown): string {
+    return `${hint(context, matcherName, expected)}\n\n`
+        + `${expectation}\n`
+        + `Received: ${context.utils.RECEIVED_COLOR(format(received, context))}`
+}
+
+// Diffs the formatted values, so a mismatch deep inside reads as `Some(...)` and `None` rather than the Option internals
+function difference(context: jest.MatcherContext, matcherName: string, expected: string, expectedOption: Option<unknown>, received: unknown): string {
+    if (context.isNot) {
+        return failure(context, matcherName, expected,
+            `Expected: not ${context.utils.EXPECTED_COLOR(format(expectedOption, context))}`, received)
+    }
+
+    return `${hint(context, matcherName, expected)}\n\n`
+        + context.utils.printDiffOrStringify(format(expectedOption, context), format(received, context), 'Expected', 'Received', context.expand !== false)
+}
+
+function hint(context: jest.MatcherContext, matcherName: string, expected: string): string {
+    return context.utils.matcherHint(matcherName, undefined, expected, { isNot: !!context.isNot, promise: context.promise || '' })
+}
+
+function format(value: unknown, context: jest.MatcherContext): string {
+    if (!isOption(value)) {
+        return context.utils.stringify(value)
+    }
+
+    return value.isSome
+        ? `Some(${format(value.value, context)})`
+        : 'None'
+}
+
+/**
+ * Generates `Some` values wrapping the values generated by the provided arbitrary.
+ *
+ * @param arb - The arbitrary generating the wrapped values.
+ * @returns An arbitrary of `Some` values.
+ */
+export function someArb<T>(arb: fc.Arbitrary<T>): fc.Arbitrary<Option<T>> {
+    return arb.map(value => Some(value))
+}
+
+/**
+ * Generates `None`.
+ */
+export const noneArb: fc.Arbitrary<NoneOption> = fc.constant(None)
+
+/**
+ * Generates `Some` values wrapping the values generated by the provided arbitrary, and `None`.
+ *
+ * @param arb - The arbitrary generating the wrapped values.
+ * @param freq - `None` is generated once every `freq` values on average, like `fc.option`. Defaults to `5`.
+ * @returns An arbitrary of `Option` values.
+ */
+export function optionArb<T>(arb: fc.Arbitrary<T>, freq: number = 5): fc.Arbitrary<Option<T>> {
+    return fc.oneof(
+        { arbitrary: noneArb, weight: 1 },
+        { arbitrary: someArb(arb), weight: freq - 1 }
+    )
+}
+
+/**
+ * The functor identity law - `option.map(x => x)` equals `option`.
+ *
+ * @param options - The arbitrary generating the checked `Option` values.
+ * @param eq - The equality of the values, defaults to deep equality.
+ * @returns A property to run with `fc.assert`.
+ */
+export function functorIdentityLaw<T>(options: fc.Arbitrary<Option<T>>, eq: Equality<T> | 'deep' = 'deep'): fc.IPropertyWithHooks<[Option<T>]> {
+    return fc.property(options, option => equals(option.map(value => value), option, eq))
+}
+
+/**
+ * The functor composition law - `option.map(f).map(g)` equals `option.map(x => g(f(x)))`.
+ *
+ * @param options - The arbitrary generating the checked `Option` values.
+ * @param f - The first mapping function.
+ * @param g - The second mapping function.
+ * @param eq - The equality of the mapped values, defaults to deep equality.
+ * @returns A property to run with `fc.assert`.
+ */
+export function functorCompositionLaw<T, U, V>(options: fc.Arbitrary<Option<T>>, f: (value: T) => U, g: (value: U) => V, eq: Equality<V> | 'deep' = 'deep'): fc.IPropertyWithHooks<[Option<T>]> {
+    return fc.property(options, option => equals(option.map(f).map(g), option.map(value => g(f(value))), eq))
+}
+
+/**
+ * The monad left identity law - `Some(value).andThen(f)` equals `f(value)`.
+ *
+ * @param values - The arbitrary generating the checked values.
+ * @param f - The `Option` returning function under test.
+ * @param eq - The equality of the returned values, defaults to deep equality.
+ * @returns A property to run with `fc.assert`.
+ */
+export function monadLeftIdentityLaw<T, U>(values: fc.Arbitrary<T>, f: (value: T) => Option<U>, eq: Equality<U> | 'deep' = 'deep'): fc.IPropertyWithHooks<[T]> {
+    return fc.property(values, value => equals(Some(value).andThen(f), f(value), eq))
+}
+
+/**
+ * The monad right identity law - `option.andThen(Some)` equals `option`.
+ *
+ * @param options - The arbitrary generating the checked `Option` values.
+ * @param eq - The equality of the values, defaults to deep equality.
+ * @returns A property to run with `fc.assert`.
+ */
+export function monadRightIdentityLaw<T>(options: fc.Arbitrary<Option<T>>, eq: Equality<T> | 'deep' = 'deep'): fc.IPropertyWithHooks<[Option<T>]> {
+    return fc.property(options, option => equals(option.andThen(value => Some(value)), option, eq))
+}
+
+/**
+ * The monad associativity law - `option.andThen(f).andThen(g)` equals `option.andThen(x => f(x).andThen(g))`.
+ *
+ * @param options - The arbitrary generating the checked `Option` values.
+ * @param f - The first `Option` returning function under test.
+ * @param g - The second `Option` returning function under test.
+ * @param eq - The equality of the returned values, defaults to deep equality.
+ * @returns A property to run with `fc.assert`.
+ */
+export function monadAssociativityLaw<T, U, V>(options: fc.Arbitrary<Option<T>>, f: (value: T) => Option<U>, g: (value: U) => Option<V>, eq: Equality<V> | 'deep' = 'deep'): fc.IPropertyWithHooks<[Option<T>]> {
+    return fc.property(options, option => equals(option.andThen(f).andThen(g), option.andThen(value => f(value).andThen(g)), eq))
+}
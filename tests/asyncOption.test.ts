@@ -0,0 +1,216 @@
+import { Some, None, Option, toAsyncOption } from "../index"
+
+describe('AsyncOption', () => {
+
+    describe('toAsyncOption', () => {
+        it('should resolve to the wrapped Option', async () => {
+            // Arrange
+            const option = Some(0)
+
+            // Act
+            const result = await toAsyncOption(option)
+
+            // Assert
+            expect(result).toBe(option)
+        })
+
+        it('should resolve to the Option a promise resolves to', async () => {
+            // Arrange
+            const option = Some(0)
+
+            // Act
+            const result = await toAsyncOption(Promise.resolve(option))
+
+            // Assert
+            expect(result).toBe(option)
+        })
+
+        it('should propagate rejections', async () => {
+            // Arrange
+            const error = new Error('failure')
+
+            // Act & Assert
+            await expect(toAsyncOption(Promise.reject(error)).toPromise()).rejects.toBe(error)
+        })
+    })
+
+    describe('Some', () => {
+
+        describe('match', () => {
+            it.each([
+                ['sync', (v: number) => v + 1],
+                ['async', async (v: number) => v + 1]
+            ])('should resolve to the result of the %s "Some" callback', async (_, some) => {
+                // Act
+                const result = await Some(0).toAsync().match(some, () => -1)
+
+                // Assert
+                expect(result).toBe(1)
+            })
+        })
+
+        describe('getValueOrDefault', () => {
+            it('should resolve to the contained value', async () => {
+                // Act & Assert
+                expect(await Some(0).toAsync().getValueOrDefault(1)).toBe(0)
+            })
+        })
+
+        describe('getValueOrCompute', () => {
+            it('should resolve to the contained value', async () => {
+                // Act & Assert
+                expect(await Some(0).toAsync().getValueOrCompute(async () => 1)).toBe(0)
+            })
+        })
+
+        describe('map', () => {
+            it.each([
+                ['sync', (v: number) => v.toString()],
+                ['async', async (v: number) => v.toString()]
+            ])('should transform the value with a %s callback', async (_, fn) => {
+                // Act
+                const result = await Some(0).toAsync().map(fn)
+
+                // Assert
+                expect(result.getValueOrDefault('')).toBe('0')
+            })
+        })
+
+        describe('andThen', () => {
+            it('should resolve to the Option returned by the callback', async () => {
+                // Arrange
+                const other = Some(1)
+
+                // Act
+                const result = await Some(0).toAsync().andThen(async () => other)
+
+                // Assert
+                expect(result).toBe(other)
+            })
+
+            it('should accept an AsyncOption returned by the callback', async () => {
+                // Arrange
+                const other = Some(1)
+
+                // Act
+                const result = await Some(0).toAsync().andThen(() => other.toAsync())
+
+                // Assert
+                expect(result).toBe(other)
+            })
+        })
+
+        describe('orElse', () => {
+            it('should resolve to itself', async () => {
+                // Arrange
+                const option = Some(0)
+                    , fn = jest.fn(async () => Some(1))
+
+                // Act
+                const result = await option.toAsync().orElse(fn)
+
+                // Assert
+                expect(result).toBe(option)
+                expect(fn).not.toHaveBeenCalled()
+            })
+        })
+
+        describe('filter', () => {
+            it('should resolve to None when an async condition is not met', async () => {
+                // Act & Assert
+                expect(await Some(0).toAsync().filter(async () => false)).toBe(None)
+            })
+
+            it('should resolve to itself when an async condition is met', async () => {
+                // Arrange
+                const option = Some(0)
+
+                // Act & Assert
+                expect(await option.toAsync().filter(async () => true)).toBe(option)
+            })
+        })
+    })
+
+    describe('None', () => {
+
+        describe('match', () => {
+            it('should resolve to the result of the "None" callback', async () => {
+                // Act
+                const result = await None.toAsync().match(() => 'some', async () => 'none')
+
+                // Assert
+                expect(result).toBe('none')
+            })
+        })
+
+        describe('getValueOrDefault', () => {
+            it('should resolve to the default value', async () => {
+                // Act & Assert
+                expect(await (None as Option<number>).toAsync().getValueOrDefault(1)).toBe(1)
+            })
+        })
+
+        describe('getValueOrCompute', () => {
+            it('should resolve to the computed value', async () => {
+                // Act & Assert
+                expect(await (None as Option<number>).toAsync().getValueOrCompute(async () => 1)).toBe(1)
+            })
+        })
+
+        describe('map', () => {
+            it('should not call the callback', async () => {
+                // Arrange
+                const fn = jest.fn(async (v: number) => v)
+
+                // Act
+                const result = await (None as Option<number>).toAsync().map(fn)
+
+                // Assert
+                expect(result).toBe(None)
+                expect(fn).not.toHaveBeenCalled()
+            })
+        })
+
+        describe('andThen', () => {
+            it('should resolve to None', async () => {
+                // Act & Assert
+                expect(await None.toAsync().andThen(async () => Some(1))).toBe(None)
+            })
+        })
+
+        describe('orElse', () => {
+            it('should resolve to the Option returned by the callback', async () => {
+                // Arrange
+                const other = Some(1)
+
+                // Act & Assert
+                expect(await (None as Option<number>).toAsync().orElse(async () => other)).toBe(other)
+            })
+        })
+
+        describe('filter', () => {
+            it('should resolve to None', async () => {
+                // Act & Assert
+                expect(await None.toAsync().filter(async () => true)).toBe(None)
+            })
+        })
+    })
+
+    describe('chaining', () => {
+        it('should chain sync and async callbacks without intermediate awaits', async () => {
+            // Arrange
+            const fetchThing = async (id: number): Promise<Option<{ id: number, name: string }>> =>
+                id > 0 ? Some({ id, name: 'thing' }) : None
+
+            // Act
+            const result = await toAsyncOption(fetchThing(1))
+                .map(thing => thing.name)
+                .filter(async name => name.length > 0)
+                .andThen(name => Some(name.toUpperCase()))
+                .getValueOrDefault('')
+
+            // Assert
+            expect(result).toBe('THING')
+        })
+    })
+})
@@ -0,0 +1,96 @@
+import { Some, None, OptionCell } from '../index'
+
+describe('OptionCell', () => {
+
+  it('should hold None by default', () => {
+    expect(new OptionCell<number>().get()).toBe(None)
+  })
+
+  it('should replace the held Option with set', () => {
+    const cell = new OptionCell<number>()
+      , option = Some(1)
+
+    cell.set(option)
+
+    expect(cell.get()).toBe(option)
+  })
+
+  describe('take', () => {
+    it('should return the held Option and leave None', () => {
+      const option = Some(1)
+        , cell = new OptionCell(option)
+
+      expect(cell.take()).toBe(option)
+      expect(cell.get()).toBe(None)
+    })
+  })
+
+  describe('takeIf', () => {
+    it('should take the held Option when the predicate holds', () => {
+      const option = Some(2)
+        , cell = new OptionCell(option)
+
+      expect(cell.takeIf(x => x % 2 === 0)).toBe(option)
+      expect(cell.get()).toBe(None)
+    })
+
+    it('should leave the held Option when the predicate does not hold', () => {
+      const option = Some(1)
+        , cell = new OptionCell(option)
+
+      expect(cell.takeIf(x => x % 2 === 0)).toBe(None)
+      expect(cell.get()).toBe(option)
+    })
+
+    it('should not call the predicate when holding None', () => {
+      const fn = jest.fn()
+
+      expect(new OptionCell<number>().takeIf(fn)).toBe(None)
+      expect(fn).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('replace', () => {
+    it('should hold the new value and return the previous Option', () => {
+      const option = Some(1)
+        , cell = new OptionCell(option)
+
+      expect(cell.replace(2)).toBe(option)
+      expect(cell.get().getValueOrDefault(0)).toBe(2)
+    })
+  })
+
+  describe('insert', () => {
+    it('should hold and return the new value', () => {
+      const cell = new OptionCell(Some(1))
+
+      expect(cell.insert(2)).toBe(2)
+      expect(cell.get().getValueOrDefault(0)).toBe(2)
+    })
+  })
+
+  describe('getOrInsert and getOrInsertWith', () => {
+    it('should return the held value when holding Some', () => {
+      const cell = new OptionCell(Some(1))
+        , fn = jest.fn(() => 3)
+
+      expect(cell.getOrInsert(2)).toBe(1)
+      expect(cell.getOrInsertWith(fn)).toBe(1)
+      expect(fn).not.toHaveBeenCalled()
+    })
+
+    it('should insert the provided value when holding None', () => {
+      const cell = new OptionCell<number>()
+
+      expect(cell.getOrInsert(2)).toBe(2)
+      expect(cell.get().getValueOrDefault(0)).toBe(2)
+    })
+
+    it('should insert the computed value when holding None', () => {
+      const cell = new OptionCell<number>()
+
+      expect(cell.getOrInsertWith(() => 3)).toBe(3)
+      expect(cell.get().getValueOrDefault(0)).toBe(3)
+    })
+  })
+})
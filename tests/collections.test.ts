@@ -0,0 +1,122 @@
+import { Some, None, Option, all, sequence, traverse, compact, somes, firstSome, any, partition, allRecord, compactRecord } from '../index'
+import fc from "fast-check"
+
+function* generate<T>(values: T[], onNext: () => void = () => { }) {
+  for (const value of values) {
+    onNext()
+    yield value
+  }
+}
+
+describe('Option collection functions', () => {
+
+  describe('all', () => {
+    it('should return Some of all values when all are Some', () => {
+      fc.assert(
+        fc.property(fc.array(fc.integer()), values => {
+          expect(all(values.map(Some)).getValueOrDefault([])).toEqual(values)
+        })
+      )
+    })
+
+    it('should return None when any is None', () => {
+      expect(all([Some(1), None, Some(2)])).toBe(None)
+    })
+
+    it('should keep precise tuple types', () => {
+      const result: Option<[number, string, boolean]> = all([Some(1), Some('a'), Some(true)])
+
+      expect(result.getValueOrDefault([0, '', false])).toEqual([1, 'a', true])
+    })
+
+    it('should stop iterating at the first None', () => {
+      const onNext = jest.fn()
+
+      all(generate([Some(1), None, Some(2)], onNext))
+
+      expect(onNext).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('sequence', () => {
+    it('should accept any iterable', () => {
+      expect(sequence(new Set([Some(1), Some(2)])).getValueOrDefault([])).toEqual([1, 2])
+    })
+  })
+
+  describe('traverse', () => {
+    it('should return Some of all results when all are Some', () => {
+      const result = traverse(['1', '2'], (item, index) => Some(Number(item) + index))
+
+      expect(result.getValueOrDefault([])).toEqual([1, 3])
+    })
+
+    it('should stop at the first None', () => {
+      const fn = jest.fn((item: number) => item > 0 ? Some(item) : None)
+
+      expect(traverse([1, 0, 2], fn)).toBe(None)
+      expect(fn).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('compact', () => {
+    it('should drop None values', () => {
+      expect(compact([Some(1), None, Some(2)])).toEqual([1, 2])
+      expect(somes(generate([None, Some('a')]))).toEqual(['a'])
+    })
+  })
+
+  describe('firstSome', () => {
+    it('should return the first Some', () => {
+      const first = Some(1)
+
+      expect(firstSome([None, first, Some(2)])).toBe(first)
+    })
+
+    it('should return None when all are None', () => {
+      expect(any([None, None])).toBe(None)
+    })
+
+    it('should stop iterating at the first Some', () => {
+      const onNext = jest.fn()
+
+      firstSome(generate([None, Some(1), Some(2)], onNext))
+
+      expect(onNext).toHaveBeenCalledTimes(2)
+    })
+  })
+
+  describe('partition', () => {
+    it('should split into Some values and a None count', () => {
+      fc.assert(
+        fc.property(fc.array(fc.option(fc.integer(), { nil: undefined })), values => {
+          const options = values.map(value => value === undefined ? None as Option<number> : Some(value))
+            , result = partition(options)
+
+          expect(result.somes).toEqual(values.filter(value => value !== undefined))
+          expect(result.noneCount).toBe(values.filter(value => value === undefined).length)
+        })
+      )
+    })
+  })
+
+  describe('allRecord', () => {
+    it('should return Some of a record of all values when all are Some', () => {
+      const result: Option<{ a: number, b: string }> = allRecord({ a: Some(1), b: Some('b') })
+
+      expect(result.getValueOrDefault({ a: 0, b: '' })).toEqual({ a: 1, b: 'b' })
+    })
+
+    it('should return None when any is None', () => {
+      expect(allRecord({ a: Some(1), b: None })).toBe(None)
+    })
+  })
+
+  describe('compactRecord', () => {
+    it('should drop the keys of None values', () => {
+      const result: Partial<{ a: number, b: string }> = compactRecord({ a: Some(1), b: None as Option<string> })
+
+      expect(result).toEqual({ a: 1 })
+    })
+  })
+})
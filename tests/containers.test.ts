@@ -0,0 +1,104 @@
+import { Some, None, OptionMap, OptionArray } from '../index'
+
+describe('OptionMap', () => {
+
+  it('should return Some for stored values, including undefined', () => {
+    const map = new OptionMap<string, number | undefined>([['a', 1], ['b', undefined]])
+
+    expect(map.get('a')).toEqual(Some(1))
+    expect(map.get('b')).toEqual(Some(undefined))
+    expect(map.get('c')).toBe(None)
+  })
+
+  it('should return the previous value from set', () => {
+    const map = new OptionMap<string, number>()
+
+    expect(map.set('a', 1)).toBe(None)
+    expect(map.set('a', 2)).toEqual(Some(1))
+    expect(map.get('a')).toEqual(Some(2))
+  })
+
+  it('should return the removed value from delete', () => {
+    const map = new OptionMap([['a', 1]])
+
+    expect(map.delete('a')).toEqual(Some(1))
+    expect(map.delete('a')).toBe(None)
+    expect(map.size).toBe(0)
+  })
+
+  it('should only compute missing values in getOrInsertWith', () => {
+    const map = new OptionMap<string, string[]>()
+      , compute = jest.fn(() => [])
+
+    map.getOrInsertWith('a', compute).push('x')
+    map.getOrInsertWith('a', compute).push('y')
+
+    expect(compute).toHaveBeenCalledTimes(1)
+    expect(map.get('a')).toEqual(Some(['x', 'y']))
+  })
+
+  it('should iterate entries in insertion order', () => {
+    const map = new OptionMap([['b', 2], ['a', 1]])
+
+    expect(Array.from(map)).toEqual([['b', 2], ['a', 1]])
+    expect(Array.from(map.keys())).toEqual(['b', 'a'])
+    expect(Array.from(map.values())).toEqual([2, 1])
+  })
+})
+
+describe('OptionArray', () => {
+
+  it('should look up items', () => {
+    const array = new OptionArray([1, 2, 3])
+
+    expect(array.at(1)).toEqual(Some(2))
+    expect(array.at(-1)).toEqual(Some(3))
+    expect(array.at(3)).toBe(None)
+    expect(array.first()).toEqual(Some(1))
+    expect(array.last()).toEqual(Some(3))
+    expect(new OptionArray<number>().first()).toBe(None)
+  })
+
+  it('should find items and indexes', () => {
+    const array = new OptionArray<number | undefined>([undefined, 2, 3])
+
+    expect(array.find(item => item === undefined)).toEqual(Some(undefined))
+    expect(array.find(item => item === 4)).toBe(None)
+    expect(array.findIndex(item => item === 3)).toEqual(Some(2))
+    expect(array.findIndex(item => item === 4)).toBe(None)
+  })
+
+  it('should remove items with pop and shift', () => {
+    const array = new OptionArray([1, 2])
+
+    expect(array.pop()).toEqual(Some(2))
+    expect(array.shift()).toEqual(Some(1))
+    expect(array.pop()).toBe(None)
+    expect(array.shift()).toBe(None)
+    expect(array.push(3)).toBe(1)
+    expect(array.items).toEqual([3])
+  })
+
+  it('should not change the provided items', () => {
+    const items = [1, 2]
+
+    new OptionArray(items).pop()
+
+    expect(items).toEqual([1, 2])
+  })
+
+  it('should binary search sorted items', () => {
+    const array = new OptionArray([1, 3, 5, 7, 9])
+
+    expect(array.binarySearch(7)).toEqual(Some(3))
+    expect(array.binarySearch(1)).toEqual(Some(0))
+    expect(array.binarySearch(4)).toBe(None)
+    expect(new OptionArray<number>().binarySearch(1)).toBe(None)
+  })
+
+  it('should binary search with a compare function', () => {
+    const array = new OptionArray([{ id: 1 }, { id: 4 }, { id: 6 }])
+
+    expect(array.binarySearch({ id: 6 }, (a, b) => a.id - b.id)).toEqual(Some(2))
+  })
+})
@@ -0,0 +1,92 @@
+import { Some, None, Option, enableOptionDiagnostics, disableOptionDiagnostics, labelNone, explain, fromValue, fromValueConditional, createOptionFactory, tryCatch, traverse, equals, safe, OptionArray, Err } from '../index'
+import { pipe, filter, map } from '../fp'
+
+const reasonOf = <T>(option: Option<T>) => explain(option).mapOrDefault(provenance => provenance.reason, '')
+
+describe('Option diagnostics', () => {
+
+  describe('when disabled', () => {
+    it('should produce the None singleton', () => {
+      expect(labelNone('missing')).toBe(None)
+      expect(Some(1).filter(_ => false)).toBe(None)
+      expect(fromValue(null)).toBe(None)
+    })
+
+    it('should have nothing to explain', () => {
+      expect(explain(Some(1).filter(_ => false))).toBe(None)
+    })
+
+    it('should not build lazy reasons', () => {
+      const reason = jest.fn(() => 'missing')
+
+      expect(labelNone(reason)).toBe(None)
+      expect(reason).not.toHaveBeenCalled()
+    })
+  })
+
+  describe('when enabled', () => {
+    beforeEach(enableOptionDiagnostics)
+    afterEach(disableOptionDiagnostics)
+
+    it('should record the reason and stack of labelled None values', () => {
+      const option = labelNone('user not found')
+        , provenance = explain(option)
+
+      expect(option.isNone).toBe(true)
+      expect(provenance.mapOrDefault(p => p.reason, '')).toBe('user not found')
+      expect(reasonOf(labelNone(() => 'user not found'))).toBe('user not found')
+      expect(provenance.mapOrDefault(p => p.stack, '')).toContain('diagnostics.test.ts')
+    })
+
+    it('should label None values produced by the library', () => {
+      expect(reasonOf(Some(1).filter(_ => false))).toMatch(/^filter/)
+      expect(reasonOf(Some(1).xor(Some(2)))).toMatch(/^xor/)
+      expect(reasonOf(fromValue(undefined))).toBe('fromValue: value was undefined')
+      expect(reasonOf(fromValueConditional(0, v => v === 0))).toMatch(/^fromValueConditional/)
+      expect(reasonOf(createOptionFactory((v: number) => v < 0)(-1))).toMatch(/^createOptionFactory/)
+      expect(reasonOf(tryCatch(() => { throw new Error() }))).toMatch(/^tryCatch/)
+    })
+
+    it('should label None values produced by the helpers', () => {
+      expect(reasonOf(pipe(Some(1), filter(_ => false)))).toMatch(/^filter/)
+      expect(reasonOf(safe.find([1], _ => false))).toMatch(/^safe\.find/)
+      expect(reasonOf(safe.at([1], 1))).toMatch(/^safe\.at/)
+      expect(reasonOf(safe.mapGet(new Map(), 'a'))).toMatch(/^safe\.mapGet/)
+      expect(reasonOf(safe.parseNumber(' '))).toMatch(/^safe\.parseNumber/)
+      expect(reasonOf(new OptionArray<number>().pop())).toMatch(/^OptionArray\.pop/)
+      expect(reasonOf(Err('failed').ok())).toMatch(/^ok/)
+    })
+
+    it('should keep the provenance through chained calls', () => {
+      const option = Some(1)
+        .filter(_ => false)
+        .map(x => x + 1)
+        .andThen(x => Some(x))
+        .zip(Some('a'))
+
+      expect(reasonOf(option)).toMatch(/^filter/)
+      expect(reasonOf(pipe(Some(1), filter(_ => false), map(x => x + 1)))).toMatch(/^filter/)
+      expect(reasonOf(traverse([1, 2], x => x === 2 ? labelNone('two') : Some(x)))).toBe('two')
+    })
+
+    it('should keep the provenance through async chains', async () => {
+      const option = await Some(1).toAsync().filter(_ => false).map(x => x + 1)
+
+      expect(reasonOf(option)).toMatch(/^filter/)
+    })
+
+    it('should keep labelled None values behaving like None', () => {
+      const option: Option<number> = labelNone('missing')
+
+      expect(option.getValueOrDefault(0)).toBe(0)
+      expect(equals(option, None)).toBe(true)
+      expect(JSON.stringify(option)).toBe(JSON.stringify(None))
+      expect(`${option}`).toBe('None')
+    })
+
+    it('should have nothing to explain for Some and the None singleton', () => {
+      expect(explain(Some(1))).toBe(None)
+      expect(explain(None)).toBe(None)
+    })
+  })
+})
@@ -0,0 +1,166 @@
+import { Some, None, Option, equals, compare, hash, compareNumberOptions, compareStringOptions, getOptionOrdering, OptionKeyedMap } from '../index'
+import fc from "fast-check"
+
+const optionOf = <T>(arb: fc.Arbitrary<T>) => fc.option(arb, { nil: undefined })
+  .map(value => value === undefined ? None as Option<T> : Some(value))
+
+describe('Option equality, ordering and hashing', () => {
+
+  describe('equals', () => {
+    it('should consider None equal to None', () => {
+      expect(equals(None, None)).toBe(true)
+    })
+
+    it('should consider Some and None unequal', () => {
+      expect(equals(Some(1), None)).toBe(false)
+      expect(equals(None, Some(1))).toBe(false)
+    })
+
+    it('should compare values with Object.is by default', () => {
+      expect(equals(Some(NaN), Some(NaN))).toBe(true)
+      expect(equals(Some({}), Some({}))).toBe(false)
+    })
+
+    it('should use the provided element equality', () => {
+      expect(equals(Some('a'), Some('A'), (a, b) => a.toLowerCase() === b.toLowerCase())).toBe(true)
+    })
+
+    it('should compare values structurally in deep mode', () => {
+      expect(equals(Some({ a: [1, Some({ b: 2 })] }), Some({ a: [1, Some({ b: 2 })] }), 'deep')).toBe(true)
+      expect(equals(Some({ a: [1, Some({ b: 2 })] }), Some({ a: [1, Some({ b: 3 })] }), 'deep')).toBe(false)
+      expect(equals(Some<object>({ a: 1 }), Some<object>({ a: 1, b: 2 }), 'deep')).toBe(false)
+      expect(equals(Some<unknown>([1]), Some<unknown>({ 0: 1 }), 'deep')).toBe(false)
+    })
+
+    it('should compare cyclic values in deep mode', () => {
+      type Node = { name: string, next?: Node | Option<Node> }
+      const a: Node = { name: 'a' }
+        , b: Node = { name: 'a' }
+        , c: Node = { name: 'a', next: { name: 'a' } }
+      a.next = Some(a)
+      b.next = Some(b)
+      c.next = { name: 'a', next: c }
+
+      expect(equals(Some(a), Some(b), 'deep')).toBe(true)
+      expect(equals(Some(a), Some(c), 'deep')).toBe(false)
+    })
+
+    it('should be reflexive in deep mode', () => {
+      fc.assert(fc.property(optionOf(fc.jsonValue()), option => {
+        expect(equals(option, option, 'deep')).toBe(true)
+      }))
+    })
+  })
+
+  describe('compare', () => {
+    const byNumber = (a: number, b: number) => a - b
+
+    it('should order None before Some', () => {
+      expect(compare(None, Some(Number.MIN_SAFE_INTEGER), byNumber)).toBeLessThan(0)
+      expect(compare(Some(Number.MIN_SAFE_INTEGER), None, byNumber)).toBeGreaterThan(0)
+      expect(compare(None, None, byNumber)).toBe(0)
+    })
+
+    it('should order Some by value', () => {
+      fc.assert(fc.property(fc.integer(), fc.integer(), (a, b) => {
+        expect(Math.sign(compare(Some(a), Some(b), byNumber))).toBe(Math.sign(a - b))
+      }))
+    })
+  })
+
+  describe('comparators', () => {
+    it('should sort number Options with None first', () => {
+      const sorted = [Some(3), None, Some(1), Some(2)].sort(compareNumberOptions)
+
+      expect(sorted.map(option => option.getValueOrDefault(0))).toEqual([0, 1, 2, 3])
+      expect(sorted[0]).toBe(None)
+    })
+
+    it('should sort string Options with None first', () => {
+      const sorted = [Some('b'), Some('a'), None].sort(compareStringOptions)
+
+      expect(sorted.map(option => option.getValueOrDefault(''))).toEqual(['', 'a', 'b'])
+    })
+
+    it('should create comparators from value orderings', () => {
+      const byLength = getOptionOrdering((a: string, b: string) => a.length - b.length)
+        , sorted = [Some('ccc'), None, Some('a')].sort(byLength)
+
+      expect(sorted.map(option => option.getValueOrDefault(''))).toEqual(['', 'a', 'ccc'])
+    })
+  })
+
+  describe('hash', () => {
+    it('should give deeply equal Options the same hash', () => {
+      fc.assert(fc.property(optionOf(fc.jsonValue()), option => {
+        const copy = option.map(value => JSON.parse(JSON.stringify(value)))
+        fc.pre(equals(option, copy, 'deep'))
+
+        expect(hash(copy)).toBe(hash(option))
+      }))
+    })
+
+    it('should not depend on key order', () => {
+      expect(hash(Some({ a: 1, b: 2 }))).toBe(hash(Some({ b: 2, a: 1 })))
+    })
+
+    it('should hash cyclic values', () => {
+      const a: unknown[] = [1]
+        , b: unknown[] = [1]
+      a.push(a)
+      b.push(b)
+
+      expect(hash(Some(a))).toBe(hash(Some(b)))
+    })
+
+    it('should distinguish None from Some', () => {
+      expect(hash(None)).not.toBe(hash(Some(undefined)))
+      expect(hash(Some(1))).not.toBe(hash(Some('1')))
+    })
+
+    it('should use the provided value hash', () => {
+      expect(hash(Some('a'), () => 1)).toBe(hash(Some('b'), () => 1))
+    })
+  })
+
+  describe('OptionKeyedMap', () => {
+    it('should look up entries by equal keys', () => {
+      const map = new OptionKeyedMap<{ id: number }, string>()
+
+      map.set(Some({ id: 1 }), 'one').set(None, 'none')
+
+      expect(map.get(Some({ id: 1 }))).toBe('one')
+      expect(map.get(None)).toBe('none')
+      expect(map.has(Some({ id: 2 }))).toBe(false)
+      expect(map.size).toBe(2)
+    })
+
+    it('should replace the value of an equal key', () => {
+      const map = new OptionKeyedMap<number, string>()
+
+      map.set(Some(1), 'a').set(Some(1), 'b')
+
+      expect(map.get(Some(1))).toBe('b')
+      expect(map.size).toBe(1)
+    })
+
+    it('should accept cyclic keys', () => {
+      const key: { self?: unknown } = {}
+      key.self = key
+
+      const map = new OptionKeyedMap<object, string>().set(Some(key), 'cyclic')
+
+      expect(map.get(Some(key))).toBe('cyclic')
+    })
+
+    it('should delete entries by equal keys', () => {
+      const map = new OptionKeyedMap<number, string>()
+      map.set(Some(1), 'a')
+
+      expect(map.delete(Some(1))).toBe(true)
+      expect(map.delete(Some(1))).toBe(false)
+      expect(map.has(Some(1))).toBe(false)
+      expect(map.size).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,122 @@
+import { Some, None, Option, toOptionFields, fromOptionFields } from '../index'
+
+describe('Option fields', () => {
+
+  type UserDTO = {
+    name?: string | null
+    nickname: string | null | undefined
+    age: number
+    address: { street: string | null, city: string } | null
+    orders: { id: number, coupon?: string }[]
+  }
+
+  const dto: UserDTO = {
+    nickname: undefined,
+    age: -1,
+    address: { street: null, city: 'Oslo' },
+    orders: [{ id: 1, coupon: 'SALE' }, { id: 2 }]
+  }
+
+  describe('toOptionFields', () => {
+    it('should convert fields with fromValue by default', () => {
+      const fields = toOptionFields({ a: 1, b: null as number | null, c: undefined as number | undefined })
+
+      expect(fields).toEqual({ a: Some(1), b: None, c: None })
+    })
+
+    it('should convert fields as chosen by the spec', () => {
+      const fields = toOptionFields(dto, {
+        name: 'undefinable',
+        nickname: 'nullable',
+        age: age => age < 0,
+        address: { street: 'nullable' },
+        orders: { coupon: 'value' }
+      })
+
+      expect(fields.name).toBe(None)
+      expect(fields.nickname).toEqual(Some(undefined))
+      expect(fields.age).toBe(None)
+      expect(fields.address.map(address => address.street)).toEqual(Some(None))
+      expect(fields.address.andThen(address => address.city)).toEqual(Some('Oslo'))
+      expect(fields.orders.map(orders => orders.map(order => order.coupon))).toEqual(Some([Some('SALE'), None]))
+    })
+
+    it('should include missing fields listed in the spec', () => {
+      const fields = toOptionFields({} as { a?: number }, { a: 'value' })
+
+      expect(Object.keys(fields)).toEqual(['a'])
+      expect(fields.a).toBe(None)
+    })
+
+    it('should leave out missing optional fields not listed in the spec', () => {
+      const fields = toOptionFields({} as { name?: string | null })
+
+      expect(fields).toEqual({})
+      expect(fields.name?.isSome).toBeUndefined()
+    })
+
+    it('should keep a __proto__ field as a field', () => {
+      const fields = toOptionFields(JSON.parse('{"name":"a","__proto__":{"isAdmin":true}}'))
+
+      expect(Object.getPrototypeOf(fields)).toBe(Object.prototype)
+      expect(Object.keys(fields)).toEqual(['name', '__proto__'])
+      expect(fields['__proto__']).toEqual(Some({ isAdmin: true }))
+    })
+
+    it('should not convert nested null fields', () => {
+      const fields = toOptionFields({ address: null } as Pick<UserDTO, 'address'>, { address: { street: 'value' } })
+
+      expect(fields.address).toBe(None)
+    })
+  })
+
+  describe('fromOptionFields', () => {
+    const fields: { name: Option<string>, age: number, address: Option<{ street: Option<string> }>, tags: Option<string>[] } = {
+      name: None,
+      age: 30,
+      address: Some({ street: None }),
+      tags: [Some('a'), None]
+    }
+
+    it('should encode None as null by default', () => {
+      expect(fromOptionFields(fields)).toEqual({ name: null, age: 30, address: { street: null }, tags: ['a', null] })
+    })
+
+    it('should encode None as undefined', () => {
+      const result = fromOptionFields(fields, { encode: 'undefined' })
+
+      expect(result).toEqual({ name: undefined, age: 30, address: { street: undefined }, tags: ['a', undefined] })
+      expect('name' in result).toBe(true)
+    })
+
+    it('should omit None fields', () => {
+      const result = fromOptionFields(fields, { encode: 'omit' })
+
+      expect(result).toStrictEqual({ age: 30, address: {}, tags: ['a', undefined] })
+    })
+
+    it('should keep a __proto__ field as a field', () => {
+      const result = fromOptionFields(JSON.parse('{"name":"a","__proto__":{"isAdmin":true}}'))
+
+      expect(Object.getPrototypeOf(result)).toBe(Object.prototype)
+      expect(result['isAdmin']).toBeUndefined()
+      expect(Object.keys(result)).toEqual(['name', '__proto__'])
+    })
+
+    it('should keep class instances as they are', () => {
+      const date = new Date(0)
+
+      expect(fromOptionFields({ date: Some(date) }).date).toBe(date)
+    })
+
+    it('should round-trip through toOptionFields', () => {
+      const fields = toOptionFields(dto, { address: { street: 'value' }, orders: { coupon: 'value' } })
+
+      expect(fromOptionFields(fields, { encode: 'omit' })).toStrictEqual({
+        age: -1,
+        address: { city: 'Oslo' },
+        orders: [{ id: 1, coupon: 'SALE' }, { id: 2 }]
+      })
+    })
+  })
+})
@@ -0,0 +1,90 @@
+import { Some, None, Option } from '../index'
+import { match, getValueOrDefault, getValueOrCompute, mapOrDefault, mapOrCompute, map, and, andThen, or, orElse, filter, pipe, flow } from '../fp'
+import fc from "fast-check"
+
+const optionArb = fc.option(fc.integer(), { nil: undefined })
+  .map(value => value === undefined ? None as Option<number> : Some(value))
+
+describe('Pipeable functions', () => {
+
+  describe('agree with the methods they mirror', () => {
+    it('match', () => {
+      fc.assert(fc.property(optionArb, option => {
+        expect(match((v: number) => v + 1, () => 0)(option)).toBe(option.match(v => v + 1, () => 0))
+      }))
+    })
+
+    it('getValueOrDefault and getValueOrCompute', () => {
+      fc.assert(fc.property(optionArb, option => {
+        expect(getValueOrDefault(-1)(option)).toBe(option.getValueOrDefault(-1))
+        expect(getValueOrCompute(() => -1)(option)).toBe(option.getValueOrCompute(() => -1))
+      }))
+    })
+
+    it('mapOrDefault and mapOrCompute', () => {
+      fc.assert(fc.property(optionArb, option => {
+        expect(mapOrDefault((v: number) => v * 2, -1)(option)).toBe(option.mapOrDefault(v => v * 2, -1))
+        expect(mapOrCompute((v: number) => v * 2, () => -1)(option)).toBe(option.mapOrCompute(v => v * 2, () => -1))
+      }))
+    })
+
+    it('map', () => {
+      fc.assert(fc.property(optionArb, option => {
+        const result = map((v: number) => v.toString())(option)
+
+        expect(result.isSome).toBe(option.isSome)
+        expect(result.getValueOrDefault('')).toBe(option.map(v => v.toString()).getValueOrDefault(''))
+      }))
+    })
+
+    it('and, andThen, or and orElse', () => {
+      const other = Some(0)
+
+      fc.assert(fc.property(optionArb, option => {
+        expect(and(other)(option)).toBe(option.and(other))
+        expect(andThen((_: number) => other)(option)).toBe(option.andThen(() => other))
+        expect(or(other)(option)).toBe(option.or(other))
+        expect(orElse(() => other)(option)).toBe(option.orElse(() => other))
+      }))
+    })
+
+    it('filter', () => {
+      fc.assert(fc.property(optionArb, fc.boolean(), (option, keep) => {
+        expect(filter((_: number) => keep)(option)).toBe(option.filter(() => keep))
+      }))
+    })
+  })
+
+  describe('pipe', () => {
+    it('should return the value when given no functions', () => {
+      const option = Some(1)
+
+      expect(pipe(option)).toBe(option)
+    })
+
+    it('should apply the functions left to right', () => {
+      const result = pipe(
+        Some(4),
+        map(value => value * 2),
+        filter(value => value > 5),
+        getValueOrDefault(0)
+      )
+
+      expect(result).toBe(8)
+    })
+  })
+
+  describe('flow', () => {
+    it('should compose the functions left to right', () => {
+      const parse = flow(
+        (text: string) => Some(text),
+        map(text => parseInt(text)),
+        filter(value => !Number.isNaN(value)),
+        getValueOrDefault(-1)
+      )
+
+      expect(parse('42')).toBe(42)
+      expect(parse('x')).toBe(-1)
+    })
+  })
+})
@@ -0,0 +1,110 @@
+import { Some, None, Option, fromValueConditional, gen, genAsync } from '../index'
+
+const parse = (text: string): Option<number> => fromValueConditional(parseInt(text), Number.isNaN)
+
+describe('Option do-notation', () => {
+
+  describe('gen', () => {
+    it('should return Some of the result when all yielded Options are Some', () => {
+      const result = Option.gen(function* () {
+        const a = yield* parse('1')
+        const b = yield* Some('2')
+        return a + Number(b)
+      })
+
+      expect(result.getValueOrDefault(0)).toBe(3)
+    })
+
+    it('should return None and stop at the first yielded None', () => {
+      const after = jest.fn()
+
+      const result = gen(function* () {
+        const a = yield* parse('')
+        after()
+        return a
+      })
+
+      expect(result).toBe(None)
+      expect(after).not.toHaveBeenCalled()
+    })
+
+    it('should run finally blocks when stopping early', () => {
+      const cleanup = jest.fn()
+
+      gen(function* () {
+        try {
+          return yield* None
+        } finally {
+          cleanup()
+        }
+      })
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should unwrap Options yielded without delegation', () => {
+      const result = gen(function* () {
+        const a = (yield Some(1)) as number
+        return a + 1
+      })
+
+      expect(result.getValueOrDefault(0)).toBe(2)
+    })
+
+    it('should propagate exceptions thrown by the generator', () => {
+      const error = new Error('failure')
+
+      expect(() => gen(function* () {
+        yield* Some(1)
+        throw error
+      })).toThrow(error)
+    })
+  })
+
+  describe('genAsync', () => {
+    it('should resolve to Some of the result when all yielded Options are Some', async () => {
+      const result = await Option.genAsync(async function* () {
+        const a = yield* await Promise.resolve(parse('1'))
+        const b = yield* await Some(2).toAsync()
+        return a + b
+      })
+
+      expect(result.getValueOrDefault(0)).toBe(3)
+    })
+
+    it('should resolve to None and stop at the first yielded None', async () => {
+      const after = jest.fn()
+
+      const result = await genAsync(async function* () {
+        const a = yield* await Promise.resolve(None as Option<number>)
+        after()
+        return a
+      })
+
+      expect(result).toBe(None)
+      expect(after).not.toHaveBeenCalled()
+    })
+
+    it('should run finally blocks when stopping early', async () => {
+      const cleanup = jest.fn()
+
+      await genAsync(async function* () {
+        try {
+          return yield* None
+        } finally {
+          cleanup()
+        }
+      })
+
+      expect(cleanup).toHaveBeenCalledTimes(1)
+    })
+
+    it('should propagate rejections', async () => {
+      const error = new Error('failure')
+
+      await expect(genAsync(async function* () {
+        return yield* await Promise.reject<Option<number>>(error)
+      }).toPromise()).rejects.toBe(error)
+    })
+  })
+})
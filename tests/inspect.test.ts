@@ -0,0 +1,54 @@
+import { Some, None } from '../index'
+import { inspect } from 'util'
+
+describe('Option debug output', () => {
+
+  describe('util.inspect', () => {
+    it('should print the wrapped value', () => {
+      expect(inspect(Some(5))).toBe('Some(5)')
+      expect(inspect(None)).toBe('None')
+      expect(inspect({ id: Some('a'), parent: None })).toBe("{ id: Some('a'), parent: None }")
+    })
+
+    it('should respect the depth of the call', () => {
+      expect(inspect(Some({ a: { b: 1 } }), { depth: 0 })).toBe('Some([Object])')
+      expect(inspect([[Some(1)]], { depth: 0 })).toBe('[ [Array] ]')
+      expect(inspect([Some(1)], { depth: 0 })).toBe('[ [Some] ]')
+      expect(inspect(Some(Some(1)), { depth: null })).toBe('Some(Some(1))')
+    })
+
+    it('should pass colors to nested values', () => {
+      expect(inspect(Some('a'), { colors: true })).toBe(`Some(${inspect('a', { colors: true })})`)
+      expect(inspect(None, { colors: true })).toBe(`\u001b[36mNone\u001b[39m`)
+    })
+
+    it('should not add enumerable properties', () => {
+      expect(Object.keys(None)).not.toContain('nodejs.util.inspect.custom')
+      expect(Object.keys(Some(1))).toEqual(['value'])
+    })
+  })
+
+  describe('toDebugString', () => {
+    it('should format nested values', () => {
+      expect(Some({ id: 1, tags: ['a'], parent: None, 'kebab-key': -0 }).toDebugString())
+        .toBe('Some({ id: 1, tags: ["a"], parent: None, "kebab-key": -0 })')
+      expect(Some(new Map([['a', Some(new Set([1]))]])).toDebugString()).toBe('Some(Map(1) { "a" => Some(Set(1) { 1 }) })')
+      expect(Some(new Date(0)).toDebugString()).toBe('Some(1970-01-01T00:00:00.000Z)')
+      expect(Some(() => 1).toDebugString()).toBe('Some([Function (anonymous)])')
+      expect(None.toDebugString()).toBe('None')
+    })
+
+    it('should print cycles as [Circular]', () => {
+      const node: { id: number, next?: unknown } = { id: 1 }
+      node.next = Some(node)
+
+      expect(Some(node).toDebugString()).toBe('Some({ id: 1, next: Some([Circular]) })')
+    })
+
+    it('should print repeated but acyclic references in full', () => {
+      const shared = { id: 1 }
+
+      expect(Some([shared, shared]).toDebugString()).toBe('Some([{ id: 1 }, { id: 1 }])')
+    })
+  })
+})
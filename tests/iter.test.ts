@@ -0,0 +1,167 @@
+import { Some, None, Option, iter, asyncIter } from '../index'
+
+describe('Option iterable operators', () => {
+
+  // Tracks how many items were pulled and whether the source was closed
+  function trackedSource<T>(items: T[]) {
+    const state = { pulled: 0, closed: false }
+
+    function* generate() {
+      try {
+        for (const item of items) {
+          state.pulled++
+          yield item
+        }
+      } finally {
+        state.closed = true
+      }
+    }
+
+    return { state, source: generate() }
+  }
+
+  function trackedAsyncSource<T>(items: T[]) {
+    const state = { pulled: 0, closed: false }
+
+    async function* generate() {
+      try {
+        for (const item of items) {
+          state.pulled++
+          yield await Promise.resolve(item)
+        }
+      } finally {
+        state.closed = true
+      }
+    }
+
+    return { state, source: generate() }
+  }
+
+  async function toArray<T>(source: AsyncIterable<T>): Promise<T[]> {
+    const items: T[] = []
+    for await (const item of source) {
+      items.push(item)
+    }
+    return items
+  }
+
+  const options: Option<number>[] = [Some(1), Some(2), None, Some(3)]
+
+  describe('iter', () => {
+    it('should filter and map lazily', () => {
+      const { state, source } = trackedSource(['1', 'x', '2'])
+        , result = iter.filterMap(source, text => Number.isNaN(Number(text)) ? None : Some(Number(text)))
+
+      expect(state.pulled).toBe(0)
+      expect(result.next()).toEqual({ value: 1, done: false })
+      expect(state.pulled).toBe(1)
+      expect(Array.from(result)).toEqual([2])
+    })
+
+    it('should yield the values of Some values', () => {
+      expect(Array.from(iter.somes(options))).toEqual([1, 2, 3])
+    })
+
+    it('should take values up to the first None and close the source', () => {
+      const { state, source } = trackedSource(options)
+
+      expect(Array.from(iter.takeWhileSome(source))).toEqual([1, 2])
+      expect(state.pulled).toBe(3)
+      expect(state.closed).toBe(true)
+    })
+
+    it('should return the first Some value and close the source', () => {
+      const { state, source } = trackedSource([None, Some(1), Some(2)])
+
+      expect(iter.firstSome(source)).toEqual(Some(1))
+      expect(state.pulled).toBe(2)
+      expect(state.closed).toBe(true)
+      expect(iter.firstSome([None, None])).toBe(None)
+    })
+
+    it('should collect values until the first None and close the source', () => {
+      const { state, source } = trackedSource(options)
+
+      expect(iter.collectAll(source)).toBe(None)
+      expect(state.pulled).toBe(3)
+      expect(state.closed).toBe(true)
+      expect(iter.collectAll([Some(1), Some(2)])).toEqual(Some([1, 2]))
+    })
+
+    it('should close the source when the consumer stops early', () => {
+      const { state, source } = trackedSource(options)
+
+      for (const value of iter.somes(source)) {
+        expect(value).toBe(1)
+        break
+      }
+
+      expect(state.pulled).toBe(1)
+      expect(state.closed).toBe(true)
+    })
+  })
+
+  describe('asyncIter', () => {
+    it('should filter and map lazily with async functions', async () => {
+      const { state, source } = trackedAsyncSource(['1', 'x', '2'])
+        , result = asyncIter.filterMap(source, async text => Number.isNaN(Number(text)) ? None : Some(Number(text)))
+
+      expect(state.pulled).toBe(0)
+      expect(await result.next()).toEqual({ value: 1, done: false })
+      expect(state.pulled).toBe(1)
+      expect(await toArray(result)).toEqual([2])
+    })
+
+    it('should yield the values of Some values', async () => {
+      const { source } = trackedAsyncSource(options)
+
+      expect(await toArray(asyncIter.somes(source))).toEqual([1, 2, 3])
+    })
+
+    it('should take values up to the first None and close the source', async () => {
+      const { state, source } = trackedAsyncSource(options)
+
+      expect(await toArray(asyncIter.takeWhileSome(source))).toEqual([1, 2])
+      expect(state.pulled).toBe(3)
+      expect(state.closed).toBe(true)
+    })
+
+    it('should resolve to the first Some value and close the source', async () => {
+      const { state, source } = trackedAsyncSource([None, Some(1), Some(2)])
+
+      expect(await asyncIter.firstSome(source).getValueOrDefault(0)).toBe(1)
+      expect(state.pulled).toBe(2)
+      expect(state.closed).toBe(true)
+      expect(await asyncIter.firstSome(trackedAsyncSource([None]).source)).toBe(None)
+    })
+
+    it('should collect values until the first None and close the source', async () => {
+      const { state, source } = trackedAsyncSource(options)
+
+      expect(await asyncIter.collectAll(source)).toBe(None)
+      expect(state.pulled).toBe(3)
+      expect(state.closed).toBe(true)
+      expect(await asyncIter.collectAll(trackedAsyncSource([Some(1), Some(2)]).source)).toEqual(Some([1, 2]))
+    })
+
+    it('should close the source when the consumer stops early', async () => {
+      const { state, source } = trackedAsyncSource(options)
+
+      for await (const value of asyncIter.somes(source)) {
+        expect(value).toBe(1)
+        break
+      }
+
+      expect(state.pulled).toBe(1)
+      expect(state.closed).toBe(true)
+    })
+
+    it('should close the source when the mapping function throws', async () => {
+      const { state, source } = trackedAsyncSource([1, 2])
+        , result = asyncIter.filterMap(source, () => Promise.reject(new Error('parse failed')))
+
+      await expect(toArray(result)).rejects.toThrow('parse failed')
+      expect(state.closed).toBe(true)
+    })
+  })
+})
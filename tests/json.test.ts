@@ -0,0 +1,112 @@
+import { Some, None, Option, reviveOptions, optionReplacer, stringifyOptions, parseOptions } from '../index'
+import fc from "fast-check"
+
+const isOption = (value: unknown): value is Option<unknown> =>
+  typeof value === 'object' && value !== null && 'isSome' in value && 'match' in value
+
+// Options compare by their closures, so reduce them to plain data before comparing
+const normalize = (value: unknown): unknown => {
+  if (isOption(value)) {
+    return value.match<unknown>(v => ({ some: normalize(v) }), () => ({ none: true }))
+  }
+  if (Array.isArray(value)) {
+    return value.map(normalize)
+  }
+  if (typeof value === 'object' && value !== null) {
+    return Object.keys(value).reduce<Record<string, unknown>>((normalized, key) => {
+      normalized[key] = normalize((value as Record<string, unknown>)[key])
+      return normalized
+    }, {})
+  }
+  // JSON has no negative zero
+  return Object.is(value, -0) ? 0 : value
+}
+
+const { tree } = fc.letrec<{ tree: unknown, option: Option<unknown> }>(tie => ({
+  tree: fc.oneof(
+    { depthSize: 'small', withCrossShrink: true },
+    fc.jsonValue({ maxDepth: 1 }),
+    tie('option'),
+    fc.array(tie('tree'), { maxLength: 3 }),
+    fc.dictionary(fc.string().filter(key => key !== '$option' && key !== '__proto__'), tie('tree'), { maxKeys: 3 })
+  ),
+  option: fc.oneof(
+    fc.constant(None),
+    tie('tree').map(value => Some(value))
+  )
+}))
+
+describe('JSON serialization', () => {
+
+  describe('toJSON', () => {
+    it('should encode Some in the tagged format', () => {
+      expect(JSON.stringify(Some(5))).toBe('{"$option":"some","value":5}')
+    })
+
+    it('should encode None in the tagged format', () => {
+      expect(JSON.stringify(None)).toBe('{"$option":"none"}')
+    })
+
+    it('should encode nested Options', () => {
+      expect(JSON.stringify({ a: [Some(Some(1)), None] }))
+        .toBe('{"a":[{"$option":"some","value":{"$option":"some","value":1}},{"$option":"none"}]}')
+    })
+  })
+
+  describe('reviveOptions', () => {
+    it('should revive tagged Some', () => {
+      const option = JSON.parse('{"$option":"some","value":5}', reviveOptions) as Option<number>
+
+      expect(option.isSome && option.value).toBe(5)
+    })
+
+    it('should revive tagged None', () => {
+      expect(JSON.parse('{"$option":"none"}', reviveOptions)).toBe(None)
+    })
+
+    it('should revive Some(undefined) whose value was dropped', () => {
+      const option = JSON.parse(JSON.stringify(Some(undefined)), reviveOptions) as Option<undefined>
+
+      expect(option.isSome).toBe(true)
+    })
+
+    it('should leave other values untouched', () => {
+      fc.assert(
+        fc.property(fc.jsonValue(), value => {
+          const text = JSON.stringify(value)
+          fc.pre(!text.includes('"$option"'))
+
+          expect(JSON.parse(text, reviveOptions)).toEqual(JSON.parse(text))
+        })
+      )
+    })
+
+    it('should round-trip Options nested in arrays, objects and other Options', () => {
+      fc.assert(
+        fc.property(tree, value => {
+          expect(normalize(parseOptions(stringifyOptions(value)))).toEqual(normalize(value))
+        })
+      )
+    })
+  })
+
+  describe('optionReplacer', () => {
+    it('should encode Some as its value and None as null with the nullable encoding', () => {
+      const text = JSON.stringify({ a: Some(1), b: None, c: [Some('x')] }, optionReplacer('nullable'))
+
+      expect(text).toBe('{"a":1,"b":null,"c":["x"]}')
+    })
+
+    it('should encode nested Options with the nullable encoding', () => {
+      expect(stringifyOptions(Some(Some({ a: Some(1) })), 'nullable')).toBe('{"a":1}')
+    })
+
+    it('should leave the tagged encoding untouched', () => {
+      fc.assert(
+        fc.property(tree, value => {
+          expect(JSON.stringify(value, optionReplacer('tagged'))).toBe(JSON.stringify(value))
+        })
+      )
+    })
+  })
+})
@@ -0,0 +1,111 @@
+import { Some, None, Option, lazyOption, isOption, all, equals } from '../index'
+import { inspect } from 'util'
+
+describe('LazyOption', () => {
+
+  it('should not compute until used', () => {
+    const compute = jest.fn(() => Some(1))
+      , lazy = lazyOption(compute)
+
+    expect(compute).not.toHaveBeenCalled()
+    expect(lazy.isEvaluated).toBe(false)
+    expect(inspect(lazy)).toBe('LazyOption { <pending> }')
+    expect(compute).not.toHaveBeenCalled()
+  })
+
+  it('should compute once and cache the result', () => {
+    const compute = jest.fn(() => Some(1))
+      , lazy = lazyOption(compute)
+
+    expect(lazy.map(x => x + 1).getValueOrDefault(0)).toBe(2)
+    expect(lazy.getValueOrDefault(0)).toBe(1)
+    expect(lazy.isEvaluated).toBe(true)
+    expect(compute).toHaveBeenCalledTimes(1)
+    expect(inspect(lazy)).toBe('Some(1)')
+  })
+
+  it('should wrap nullable results with fromValue semantics', () => {
+    const map = new Map([['a', 1]])
+
+    expect(lazyOption(() => map.get('a')).getValueOrDefault(0)).toBe(1)
+    expect(lazyOption(() => map.get('b')).isNone).toBe(true)
+    expect(lazyOption(() => null).force()).toBe(None)
+  })
+
+  it('should return the computed Option from force', () => {
+    const option = Some(1)
+
+    expect(lazyOption(() => option).force()).toBe(option)
+  })
+
+  it('should narrow like an Option', () => {
+    const lazy = lazyOption(() => Some('a'))
+
+    expect(lazy.isSome && lazy.value).toBe('a')
+  })
+
+  it('should be accepted anywhere an Option is expected', () => {
+    const lazy: Option<number> = lazyOption(() => Some(2))
+
+    expect(isOption(lazy)).toBe(true)
+    expect(all([Some(1), lazy]).getValueOrDefault([0, 0])).toEqual([1, 2])
+    expect(Some(1).zip(lazy).getValueOrDefault([0, 0])).toEqual([1, 2])
+    expect(equals(lazy, Some(2))).toBe(true)
+    expect(JSON.stringify(lazy)).toBe(JSON.stringify(Some(2)))
+    expect(`${lazy}`).toBe('Some(2)')
+    expect(lazyOption(() => Some(Some(3))).flatten().getValueOrDefault(0)).toBe(3)
+  })
+
+  it('should compute again after reset', () => {
+    let calls = 0
+    const lazy = lazyOption(() => Some(++calls))
+
+    expect(lazy.getValueOrDefault(0)).toBe(1)
+    lazy.reset()
+    expect(lazy.isEvaluated).toBe(false)
+    expect(lazy.getValueOrDefault(0)).toBe(2)
+  })
+
+  it('should not cache a computation that throws', () => {
+    const compute = jest.fn()
+      .mockImplementationOnce(() => { throw new Error('probe failed') })
+      .mockImplementationOnce(() => 1)
+      , lazy = lazyOption<number>(compute)
+
+    expect(() => lazy.force()).toThrow('probe failed')
+    expect(lazy.getValueOrDefault(0)).toBe(1)
+  })
+
+  describe('with a ttl', () => {
+    beforeEach(() => jest.useFakeTimers())
+    afterEach(() => jest.useRealTimers())
+
+    it('should compute again once the cached value expires', () => {
+      let calls = 0
+      const lazy = lazyOption(() => Some(++calls), { ttl: 1000 })
+
+      expect(lazy.getValueOrDefault(0)).toBe(1)
+      jest.advanceTimersByTime(999)
+      expect(lazy.isEvaluated).toBe(true)
+      expect(lazy.getValueOrDefault(0)).toBe(1)
+      jest.advanceTimersByTime(1)
+      expect(lazy.isEvaluated).toBe(false)
+      expect(lazy.getValueOrDefault(0)).toBe(2)
+    })
+
+    it('should keep the value read after isSome when the cached value expires in between', () => {
+      let calls = 0
+      const lazy = lazyOption(() => ++calls % 2 === 1 ? Some(calls) : None, { ttl: 1000 })
+
+      if (!lazy.isSome) {
+        throw new Error('expected Some')
+      }
+
+      jest.advanceTimersByTime(1000)
+      expect(lazy.value).toBe(1)
+      expect(lazy.isNone).toBe(false)
+      expect(lazy.force()).toBe(None)
+      expect(lazy.isNone).toBe(true)
+    })
+  })
+})
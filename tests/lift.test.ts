@@ -0,0 +1,81 @@
+import { Some, None, Option, liftNullable, liftUndefinable, liftPredicate, ap, lift2, lift3, liftN } from '../index'
+import fc from "fast-check"
+
+describe('Option lifting functions', () => {
+
+  describe('liftNullable', () => {
+    it('should return None for null and undefined results', () => {
+      const lookup = liftNullable((key: string) => ({ a: 'A', b: null } as Record<string, string | null>)[key])
+
+      expect(lookup('a').getValueOrDefault('')).toBe('A')
+      expect(lookup('b')).toBe(None)
+      expect(lookup('c')).toBe(None)
+    })
+  })
+
+  describe('liftUndefinable', () => {
+    it('should only return None for undefined results', () => {
+      const get = liftUndefinable((items: (number | null)[], index: number) => items[index])
+
+      expect(get([null], 0).isSome).toBe(true)
+      expect(get([null], 1)).toBe(None)
+    })
+  })
+
+  describe('liftPredicate', () => {
+    it('should return None for results satisfying the predicate', () => {
+      const indexOf = liftPredicate((text: string, search: string) => text.indexOf(search), index => index === -1)
+
+      expect(indexOf('abc', 'c').getValueOrDefault(-1)).toBe(2)
+      expect(indexOf('abc', 'd')).toBe(None)
+    })
+  })
+
+  describe('ap', () => {
+    it('should apply the wrapped function to the wrapped value', () => {
+      const double = Some((x: number) => x * 2)
+
+      expect(ap(double, Some(2)).getValueOrDefault(0)).toBe(4)
+      expect(ap(double, None)).toBe(None)
+      expect(ap(None as Option<(x: number) => number>, Some(2))).toBe(None)
+    })
+  })
+
+  describe('lift2 and lift3', () => {
+    it('should apply the function when all arguments are Some', () => {
+      const add = lift2((a: number, b: number) => a + b)
+        , clamp = lift3((value: number, min: number, max: number) => Math.min(Math.max(value, min), max))
+
+      expect(add(Some(1), Some(2)).getValueOrDefault(0)).toBe(3)
+      expect(clamp(Some(5), Some(0), Some(3)).getValueOrDefault(-1)).toBe(3)
+    })
+
+    it('should return None when any argument is None', () => {
+      fc.assert(fc.property(fc.boolean(), fc.boolean(), fc.boolean(), (a, b, c) => {
+        const fn = jest.fn((x: number, y: number, z: number) => x + y + z)
+          , result = lift3(fn)(a ? Some(1) : None, b ? Some(2) : None, c ? Some(3) : None)
+
+        expect(result.isSome).toBe(a && b && c)
+        expect(fn).toHaveBeenCalledTimes(a && b && c ? 1 : 0)
+      }))
+    })
+  })
+
+  describe('liftN', () => {
+    it('should infer the argument types from the function', () => {
+      const format = liftN((name: string, age: number, admin: boolean) => `${name} (${age})${admin ? '*' : ''}`)
+
+      expect(format(Some('Ann'), Some(30), Some(true)).getValueOrDefault('')).toBe('Ann (30)*')
+      expect(format(Some('Ann'), None, Some(true))).toBe(None)
+      // @ts-expect-error - the first argument should be an Option of a string
+      expect(format(Some(1), Some(30), Some(true)).isSome).toBe(true)
+    })
+
+    it('should lift functions with rest parameters', () => {
+      const sum = liftN((...values: number[]) => values.reduce((total, value) => total + value, 0))
+
+      expect(sum(Some(1), Some(2), Some(3)).getValueOrDefault(0)).toBe(6)
+      expect(sum().getValueOrDefault(-1)).toBe(0)
+    })
+  })
+})
@@ -0,0 +1,79 @@
+import { Some, None, Option, Monoid, getOptionMonoid, getFirstMonoid, getLastMonoid, concatAll, sumMonoid, productMonoid, minSemigroup, maxSemigroup, stringMonoid, getMergeSemigroup, equals } from '../index'
+import fc from "fast-check"
+
+const optionOf = <T>(arb: fc.Arbitrary<T>) => fc.option(arb, { nil: undefined })
+  .map(value => value === undefined ? None as Option<T> : Some(value))
+
+const checkMonoidLaws = <T>(monoid: Monoid<T>, arb: fc.Arbitrary<T>, eq: (a: T, b: T) => boolean) => {
+  fc.assert(fc.property(arb, arb, arb, (a, b, c) =>
+    eq(monoid.concat(monoid.concat(a, b), c), monoid.concat(a, monoid.concat(b, c)))))
+  fc.assert(fc.property(arb, a =>
+    eq(monoid.concat(monoid.empty, a), a) && eq(monoid.concat(a, monoid.empty), a)))
+}
+
+describe('Option semigroups and monoids', () => {
+
+  describe('getOptionMonoid', () => {
+    const monoid = getOptionMonoid(sumMonoid)
+
+    it('should combine two Some values', () => {
+      expect(monoid.concat(Some(1), Some(2)).getValueOrDefault(0)).toBe(3)
+    })
+
+    it('should treat None as the identity', () => {
+      const option = Some(1)
+
+      expect(monoid.concat(option, None)).toBe(option)
+      expect(monoid.concat(None, option)).toBe(option)
+      expect(monoid.concat(None, None)).toBe(None)
+    })
+
+    it('should satisfy the monoid laws', () => {
+      checkMonoidLaws(monoid, optionOf(fc.integer({ min: -1000, max: 1000 })), (a, b) => equals(a, b))
+      checkMonoidLaws(getOptionMonoid(stringMonoid), optionOf(fc.string()), (a, b) => equals(a, b))
+    })
+  })
+
+  describe('getFirstMonoid and getLastMonoid', () => {
+    it('should keep the first and the last Some', () => {
+      const options = [None, Some(1), None, Some(2), None]
+
+      expect(concatAll(getFirstMonoid<number>(), options).getValueOrDefault(0)).toBe(1)
+      expect(concatAll(getLastMonoid<number>(), options).getValueOrDefault(0)).toBe(2)
+    })
+
+    it('should satisfy the monoid laws', () => {
+      checkMonoidLaws(getFirstMonoid<number>(), optionOf(fc.integer()), (a, b) => equals(a, b))
+      checkMonoidLaws(getLastMonoid<number>(), optionOf(fc.integer()), (a, b) => equals(a, b))
+    })
+  })
+
+  describe('concatAll', () => {
+    it('should return the empty value for no values', () => {
+      expect(concatAll(getOptionMonoid(maxSemigroup), [])).toBe(None)
+      expect(concatAll(productMonoid, [])).toBe(1)
+    })
+
+    it('should combine the values of any iterable', () => {
+      expect(concatAll(stringMonoid, new Set(['a', 'b', 'c']))).toBe('abc')
+      expect(concatAll(getOptionMonoid(minSemigroup), [Some(3), None, Some(1), Some(2)]).getValueOrDefault(0)).toBe(1)
+    })
+  })
+
+  describe('built-in semigroups', () => {
+    it('should combine numbers', () => {
+      expect(sumMonoid.concat(2, 3)).toBe(5)
+      expect(productMonoid.concat(2, 3)).toBe(6)
+      expect(minSemigroup.concat(2, 3)).toBe(2)
+      expect(maxSemigroup.concat(2, 3)).toBe(3)
+    })
+
+    it('should shallowly merge objects with later properties winning', () => {
+      type Config = { host?: string, port?: number, tls?: { enabled: boolean } }
+      const monoid = getOptionMonoid(getMergeSemigroup<Config>())
+        , merged = concatAll(monoid, [Some<Config>({ host: 'a', tls: { enabled: true } }), None, Some<Config>({ port: 80, tls: { enabled: false } })])
+
+      expect(merged.getValueOrDefault({})).toEqual({ host: 'a', port: 80, tls: { enabled: false } })
+    })
+  })
+})
@@ -1,4 +1,4 @@
-import { Some, None } from "../index"
+import { Some, None, Option, OptionUnwrapError } from "../index"
 
 describe('Option', () => {
 
@@ -16,6 +16,18 @@ describe('Option', () => {
                 // Assert
                 expect(result).toBe(wrappedValue)
             })
+
+            it('should call the "Some" arm of the object form', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+
+                // Act
+                const result = option.match({ Some: value => value + 1, None: () => wrappedValue })
+
+                // Assert
+                expect(result).toBe(wrappedValue + 1)
+            })
         })
 
         describe('getValueOrDefault', () => {
@@ -173,6 +185,218 @@ describe('Option', () => {
             })
         })
 
+        describe('xor', () => {
+            it('should return itself when the provided option is None', () => {
+                // Arrange
+                const option = Some(0)
+
+                // Act
+                const result = option.xor(None)
+
+                // Assert
+                expect(result).toBe(option)
+            })
+
+            it('should return None when the provided option is Some', () => {
+                // Arrange
+                const option = Some(0)
+                    , other = Some(1)
+
+                // Act
+                const result = option.xor(other)
+
+                // Assert
+                expect(result).toBe(None)
+            })
+        })
+
+        describe('zip', () => {
+            it('should return Some of both values when the provided option is Some', () => {
+                // Arrange
+                const option = Some(0)
+                    , other = Some('other')
+
+                // Act
+                const result = option.zip(other)
+
+                // Assert
+                expect(result.getValueOrDefault([1, ''])).toEqual([0, 'other'])
+            })
+
+            it('should return None when the provided option is None', () => {
+                // Arrange
+                const option = Some(0)
+
+                // Act
+                const result = option.zip(None)
+
+                // Assert
+                expect(result).toBe(None)
+            })
+        })
+
+        describe('zipWith', () => {
+            it('should combine both values when the provided option is Some', () => {
+                // Arrange
+                const option = Some(1)
+                    , other = Some(2)
+
+                // Act
+                const result = option.zipWith(other, (a, b) => a + b)
+
+                // Assert
+                expect(result.getValueOrDefault(0)).toBe(3)
+            })
+
+            it('should return None when the provided option is None', () => {
+                // Arrange
+                const option = Some(1)
+                    , other: Option<number> = None
+
+                // Act
+                const result = option.zipWith(other, (a, b) => a + b)
+
+                // Assert
+                expect(result).toBe(None)
+            })
+        })
+
+        describe('unzip', () => {
+            it('should return a pair of Some values', () => {
+                // Arrange
+                const option = Some<[number, string]>([0, 'other'])
+
+                // Act
+                const [first, second] = option.unzip()
+
+                // Assert
+                expect(first.getValueOrDefault(1)).toBe(0)
+                expect(second.getValueOrDefault('')).toBe('other')
+            })
+        })
+
+        describe('flatten', () => {
+            it('should return the inner option', () => {
+                // Arrange
+                const inner = Some(0)
+                    , option = Some(inner)
+
+                // Act
+                const result = option.flatten()
+
+                // Assert
+                expect(result).toBe(inner)
+            })
+        })
+
+        describe('inspect', () => {
+            it('should call the provided function with the value and return itself', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+                    , fn = jest.fn()
+
+                // Act
+                const result = option.inspect(fn)
+
+                // Assert
+                expect(result).toBe(option)
+                expect(fn).toHaveBeenCalledWith(wrappedValue)
+            })
+        })
+
+        describe('isSomeAnd', () => {
+            it.each([true, false])('should return the result of the predicate', val => {
+                // Arrange
+                const option = Some(0)
+
+                // Act & Assert
+                expect(option.isSomeAnd(_ => val)).toBe(val)
+            })
+        })
+
+        describe('isNoneOr', () => {
+            it.each([true, false])('should return the result of the predicate', val => {
+                // Arrange
+                const option = Some(0)
+
+                // Act & Assert
+                expect(option.isNoneOr(_ => val)).toBe(val)
+            })
+        })
+
+        describe('mapOr and mapOrElse', () => {
+            it('should map the value', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+
+                // Act & Assert
+                expect(option.mapOr(v => v.toString(), '')).toBe(wrappedValue.toString())
+                expect(option.mapOrElse(v => v.toString(), () => '')).toBe(wrappedValue.toString())
+            })
+        })
+
+        describe('unwrapOr and unwrapOrElse', () => {
+            it('should return the contained value', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+
+                // Act & Assert
+                expect(option.unwrapOr(wrappedValue + 1)).toBe(wrappedValue)
+                expect(option.unwrapOrElse(() => wrappedValue + 1)).toBe(wrappedValue)
+            })
+        })
+
+        describe('expect', () => {
+            it('should return the contained value', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+
+                // Act & Assert
+                expect(option.expect('should have a value')).toBe(wrappedValue)
+            })
+        })
+
+        describe('unwrap', () => {
+            it('should return the contained value', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option = Some(wrappedValue)
+
+                // Act & Assert
+                expect(option.unwrap()).toBe(wrappedValue)
+            })
+        })
+
+        describe('toString', () => {
+            it('should format the value with String', () => {
+                // Arrange
+                const option = Some(Some(5))
+
+                // Act
+                const result = `${option}`
+
+                // Assert
+                expect(result).toBe('Some(Some(5))')
+                expect(Object.prototype.toString.call(option)).toBe('[object Some]')
+            })
+
+            it('should format values String cannot convert like toDebugString', () => {
+                // Arrange
+                const value = Object.create(null)
+                value.id = 1
+
+                // Act
+                const result = Some(value).toString()
+
+                // Assert
+                expect(result).toBe('Some([Object: null prototype] { id: 1 })')
+            })
+        })
+
         describe('isNone', () => {
             it('should return false', () => {
                 // Arrange
@@ -192,6 +416,44 @@ describe('Option', () => {
                 expect(option.isSome).toBe(true)
             })
         })
+
+        describe('methods', () => {
+            it('should be shared between instances', () => {
+                // Arrange
+                const first = Some(0)
+                    , second = Some('')
+
+                // Act & Assert
+                expect(first.map).toBe(second.map)
+                expect(Object.keys(first)).toEqual(['value'])
+            })
+        })
+
+        describe('value', () => {
+            it('should be accessible after narrowing with isSome', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option: Option<number> = Some(wrappedValue)
+
+                // Act
+                const result = option.isSome ? option.value : wrappedValue + 1
+
+                // Assert
+                expect(result).toBe(wrappedValue)
+            })
+
+            it('should be accessible after narrowing with isNone', () => {
+                // Arrange
+                const wrappedValue = 0
+                    , option: Option<number> = Some(wrappedValue)
+
+                // Act
+                const result = option.isNone ? wrappedValue + 1 : option.value
+
+                // Assert
+                expect(result).toBe(wrappedValue)
+            })
+        })
     })
 
     describe('None', () => {
@@ -208,6 +470,18 @@ describe('Option', () => {
                 // Assert
                 expect(result).toBe(expected)
             })
+
+            it('should call the "None" arm of the object form', () => {
+                // Arrange
+                const option: Option<number> = None
+                    , expected = "No value found"
+
+                // Act
+                const result = option.match({ Some: _ => "This shouldn't run", None: () => expected })
+
+                // Assert
+                expect(result).toBe(expected)
+            })
         })
 
         describe('getValueOrDefault', () => {
@@ -348,6 +622,179 @@ describe('Option', () => {
             })
         })
 
+        describe('xor', () => {
+            it('should return the provided option', () => {
+                // Arrange
+                const option = None
+                    , other = Some(0)
+
+                // Act
+                const result = option.xor(other)
+
+                // Assert
+                expect(result).toBe(other)
+            })
+        })
+
+        describe('zip', () => {
+            it('should return None', () => {
+                // Arrange
+                const option = None
+                    , other = Some(0)
+
+                // Act
+                const result = option.zip(other)
+
+                // Assert
+                expect(result).toBe(None)
+            })
+        })
+
+        describe('zipWith', () => {
+            it('should return None without calling the provided function', () => {
+                // Arrange
+                const option = None
+                    , fn = jest.fn()
+
+                // Act
+                const result = option.zipWith(Some(0), fn)
+
+                // Assert
+                expect(result).toBe(None)
+                expect(fn).not.toHaveBeenCalled()
+            })
+        })
+
+        describe('unzip', () => {
+            it('should return a pair of None values', () => {
+                // Arrange
+                const option: Option<[number, string]> = None
+
+                // Act
+                const result = option.unzip()
+
+                // Assert
+                expect(result).toEqual([None, None])
+            })
+        })
+
+        describe('flatten', () => {
+            it('should return None', () => {
+                // Arrange
+                const option: Option<Option<number>> = None
+
+                // Act
+                const result = option.flatten()
+
+                // Assert
+                expect(result).toBe(None)
+            })
+        })
+
+        describe('inspect', () => {
+            it('should return None without calling the provided function', () => {
+                // Arrange
+                const option = None
+                    , fn = jest.fn()
+
+                // Act
+                const result = option.inspect(fn)
+
+                // Assert
+                expect(result).toBe(None)
+                expect(fn).not.toHaveBeenCalled()
+            })
+        })
+
+        describe('isSomeAnd', () => {
+            it.each([true, false])('should always return false', val => {
+                // Arrange
+                const option = None
+
+                // Act & Assert
+                expect(option.isSomeAnd(_ => val)).toBe(false)
+            })
+        })
+
+        describe('isNoneOr', () => {
+            it.each([true, false])('should always return true', val => {
+                // Arrange
+                const option = None
+
+                // Act & Assert
+                expect(option.isNoneOr(_ => val)).toBe(true)
+            })
+        })
+
+        describe('mapOr and mapOrElse', () => {
+            it('should return the default and computed values', () => {
+                // Arrange
+                const option = None
+                    , expected = "Default"
+
+                // Act & Assert
+                expect(option.mapOr(v => v, expected)).toBe(expected)
+                expect(option.mapOrElse(v => v, () => expected)).toBe(expected)
+            })
+        })
+
+        describe('unwrapOr and unwrapOrElse', () => {
+            it('should return the default and computed values', () => {
+                // Arrange
+                const option = None
+                    , expected = "Default"
+
+                // Act & Assert
+                expect(option.unwrapOr(expected)).toBe(expected)
+                expect(option.unwrapOrElse(() => expected)).toBe(expected)
+            })
+        })
+
+        describe('expect', () => {
+            it('should throw an OptionUnwrapError with the provided message and context', () => {
+                // Arrange
+                const option = None
+                    , message = "should have a value"
+                    , context = { key: 'id' }
+
+                // Act
+                let error: unknown
+                try {
+                    option.expect(message, context)
+                } catch (thrown) {
+                    error = thrown
+                }
+
+                // Assert
+                expect(error).toBeInstanceOf(OptionUnwrapError)
+                expect(error).toMatchObject({ name: 'OptionUnwrapError', message, context })
+            })
+        })
+
+        describe('unwrap', () => {
+            it('should throw an OptionUnwrapError', () => {
+                // Arrange
+                const option = None
+
+                // Act & Assert
+                expect(() => option.unwrap()).toThrow(OptionUnwrapError)
+            })
+        })
+
+        describe('toString', () => {
+            it('should return None', () => {
+                // Arrange
+                const option = None
+
+                // Act
+                const result = `${option}`
+
+                // Assert
+                expect(result).toBe('None')
+                expect(Object.prototype.toString.call(option)).toBe('[object None]')
+            })
+        })
+
         describe('isNone', () => {
             it('should return true', () => {
                 // Arrange
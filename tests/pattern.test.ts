@@ -0,0 +1,83 @@
+import { Some, None, Option, Any, matchAll } from '../index'
+
+describe('matchAll', () => {
+
+  const describePair = (a: Option<number>, b: Option<string>) => matchAll([a, b])
+    .with([Some(0), Any], () => 'zero')
+    .with([Some(n => n < 0), Some], (n, s) => `negative ${n} ${s}`)
+    .with([Some, Some], (n, s) => `${n} ${s}`)
+    .with([Some, None], n => `${n} alone`)
+    .with([None, Any], (_, b) => b.mapOrDefault(s => `${s} alone`, 'nothing'))
+    .exhaustive()
+
+  it('should run the first matching arm', () => {
+    expect(describePair(Some(0), Some('a'))).toBe('zero')
+    expect(describePair(Some(-1), Some('a'))).toBe('negative -1 a')
+    expect(describePair(Some(1), Some('a'))).toBe('1 a')
+    expect(describePair(Some(-1), None)).toBe('-1 alone')
+    expect(describePair(None, Some('a'))).toBe('a alone')
+    expect(describePair(None, None)).toBe('nothing')
+  })
+
+  it('should match literal patterns by deep equality', () => {
+    const result = matchAll([Some({ x: 1, tags: ['a'] })])
+      .with([Some({ x: 1, tags: ['a'] })], () => 'equal')
+      .otherwise(() => 'different')
+
+    expect(result).toBe('equal')
+  })
+
+  it('should pass undefined for None patterns', () => {
+    const handler = jest.fn(() => 0)
+
+    matchAll([None, Some(1)]).with([None, Some], handler).otherwise(() => 1)
+
+    expect(handler).toHaveBeenCalledWith(undefined, 1)
+  })
+
+  it('should call otherwise if no arm matches', () => {
+    const result = matchAll([Some(1)])
+      .with([Some(2)], () => 'two')
+      .otherwise(() => 'other')
+
+    expect(result).toBe('other')
+  })
+
+  it('should only run arms when finished', () => {
+    const handler = jest.fn(() => 0)
+      , matcher = matchAll([Some(1)]).with([Any], handler)
+
+    expect(handler).not.toHaveBeenCalled()
+    matcher.with([None], () => 1).exhaustive()
+    expect(handler).toHaveBeenCalledTimes(1)
+  })
+
+  it('should throw if no arm matches an exhaustive match', () => {
+    const unchecked = matchAll([None as Option<number>]).with([Some], n => n) as any
+
+    expect(() => unchecked.exhaustive()).toThrow('No arm of matchAll matched')
+  })
+
+  it('should check exhaustiveness at compile time', () => {
+    const a: Option<number> = Some(1)
+      , b: Option<string> = None
+
+    // Only type checked, never called
+    const nonExhaustive = () => [
+      // @ts-expect-error - ['None', 'None'] is not handled
+      matchAll([a, b]).with([Some, Any], () => 1).with([Any, Some], () => 2).exhaustive(),
+      // @ts-expect-error - guard arms may not match
+      matchAll([a]).with([Some(n => n > 0)], () => 1).with([None], () => 2).exhaustive(),
+      // @ts-expect-error - the literal does not have the type of the value
+      matchAll([a]).with([Some('1')], () => 1)
+    ]
+
+    const result: number | string = matchAll([a, b])
+      .with([Some, Any], () => 1)
+      .with([None, Any], () => 'none')
+      .exhaustive()
+
+    expect(result).toBe(1)
+    expect(nonExhaustive).toBeInstanceOf(Function)
+  })
+})
@@ -0,0 +1,148 @@
+import { Some, None, Option, fromPromise, firstSomeOf, allSome } from '../index'
+
+describe('Option promise interop', () => {
+
+  const never = <T>() => new Promise<T>(() => undefined)
+
+  function delayed<T>(value: T, ms: number, signal?: AbortSignal): Promise<T> {
+    return new Promise((resolve, reject) => {
+      const timer = setTimeout(() => resolve(value), ms)
+      if (signal) {
+        signal.addEventListener('abort', () => {
+          clearTimeout(timer)
+          reject(new Error('aborted'))
+        })
+      }
+    })
+  }
+
+  beforeEach(() => {
+    jest.useFakeTimers()
+  })
+
+  afterEach(() => {
+    jest.useRealTimers()
+  })
+
+  describe('fromPromise', () => {
+    it('should wrap the resolved value with fromValue semantics', async () => {
+      expect(await fromPromise(Promise.resolve(1))).toEqual(Some(1))
+      expect(await fromPromise(Promise.resolve(null))).toBe(None)
+    })
+
+    it('should use the isNone predicate', async () => {
+      expect(await fromPromise(Promise.resolve(-1), { isNone: n => n < 0 })).toBe(None)
+      expect(await fromPromise(Promise.resolve(null), { isNone: () => false })).toEqual(Some(null))
+    })
+
+    it('should return None when the promise rejects', async () => {
+      expect(await fromPromise(Promise.reject(new Error('failed')))).toBe(None)
+    })
+
+    it('should return None when the promise times out', async () => {
+      const result = fromPromise(never<number>(), { timeoutMs: 1000 })
+
+      jest.advanceTimersByTime(1000)
+
+      expect(await result).toBe(None)
+    })
+
+    it('should clear the timeout when the promise settles', async () => {
+      expect(await fromPromise(Promise.resolve(1), { timeoutMs: 1000 })).toEqual(Some(1))
+      expect(jest.getTimerCount()).toBe(0)
+    })
+
+    it('should return None when isNone throws', async () => {
+      const isNone = () => {
+        throw new Error('failed')
+      }
+
+      expect(await fromPromise(Promise.resolve(1), { isNone })).toBe(None)
+    })
+
+    it('should return None when the signal is aborted', async () => {
+      const controller = new AbortController()
+        , result = fromPromise(never<number>(), { signal: controller.signal })
+
+      controller.abort()
+
+      expect(await result).toBe(None)
+    })
+
+    it('should return None when the signal is already aborted', async () => {
+      const controller = new AbortController()
+      controller.abort()
+
+      expect(await fromPromise(Promise.resolve(1), { signal: controller.signal })).toBe(None)
+    })
+
+    it('should handle a rejection after the signal is already aborted', async () => {
+      const controller = new AbortController()
+        , rejected = Promise.reject(new Error('failed'))
+        , then = jest.spyOn(rejected, 'then')
+      controller.abort()
+
+      expect(await fromPromise(rejected, { signal: controller.signal })).toBe(None)
+      expect(then).toHaveBeenCalledWith(expect.any(Function), expect.any(Function))
+    })
+  })
+
+  describe('firstSomeOf', () => {
+    it('should resolve to the first Some and abort the other tasks', async () => {
+      const signals: AbortSignal[] = []
+        , result = firstSomeOf<string>([
+          signal => (signals.push(signal), fromPromise(delayed('', 10, signal), { isNone: text => text === '' })),
+          signal => fromPromise(delayed('fast', 20, signal)),
+          signal => fromPromise(delayed('slow', 30, signal))
+        ])
+
+      await jest.advanceTimersByTimeAsync(20)
+
+      expect(await result).toEqual(Some('fast'))
+      expect(signals[0]?.aborted).toBe(true)
+      expect(jest.getTimerCount()).toBe(0)
+    })
+
+    it('should treat rejected tasks as None', async () => {
+      const result = firstSomeOf([
+        () => Promise.reject(new Error('failed')),
+        () => { throw new Error('failed') },
+        () => Some(1)
+      ])
+
+      expect(await result).toEqual(Some(1))
+    })
+
+    it('should resolve to None if every task returns None', async () => {
+      expect(await firstSomeOf([() => None, () => Promise.resolve(None)])).toBe(None)
+      expect(await firstSomeOf([])).toBe(None)
+    })
+  })
+
+  describe('allSome', () => {
+    it('should resolve to all the values in order', async () => {
+      const result = allSome([delayed(Some(1), 20), Some('a'), delayed(Some(true), 10)])
+
+      await jest.advanceTimersByTimeAsync(20)
+
+      const values: Option<[number, string, boolean]> = await result
+      expect(values).toEqual(Some([1, 'a', true]))
+    })
+
+    it('should resolve to None without waiting for the other promises', async () => {
+      const result = allSome([never<Option<number>>(), delayed(None, 10)])
+
+      await jest.advanceTimersByTimeAsync(10)
+
+      expect(await result).toBe(None)
+    })
+
+    it('should treat rejected promises as None', async () => {
+      expect(await allSome([Promise.resolve(Some(1)), Promise.reject(new Error('failed'))])).toBe(None)
+    })
+
+    it('should resolve to Some of an empty array for no promises', async () => {
+      expect(await allSome([])).toEqual(Some([]))
+    })
+  })
+})
@@ -0,0 +1,457 @@
+import { Some, None, Ok, Err, Option, Result } from "../index"
+
+describe('Result', () => {
+
+    describe('Ok', () => {
+
+        describe('match', () => {
+            it('should return the "Ok" value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act
+                const matched = result.match(value => value, () => 1)
+
+                // Assert
+                expect(matched).toBe(0)
+            })
+        })
+
+        describe('getValueOrDefault', () => {
+            it('should return the contained value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.getValueOrDefault(1)).toBe(0)
+            })
+        })
+
+        describe('getValueOrCompute', () => {
+            it('should return the contained value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.getValueOrCompute(() => 1)).toBe(0)
+            })
+        })
+
+        describe('mapOrDefault', () => {
+            it('should map the value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.mapOrDefault(v => v.toString(), '1')).toBe('0')
+            })
+        })
+
+        describe('mapOrCompute', () => {
+            it('should map the value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.mapOrCompute(v => v.toString(), e => e)).toBe('0')
+            })
+        })
+
+        describe('map', () => {
+            it('should correctly transform the value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act
+                const mapped = result.map(value => value.toString())
+
+                // Assert
+                expect(mapped.match(v => v, e => e)).toBe('0')
+            })
+        })
+
+        describe('mapErr', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.mapErr(e => e.length)).toBe(result)
+            })
+        })
+
+        describe('and', () => {
+            it('should return the provided result', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+                    , other = Ok<string, string>('other')
+
+                // Act & Assert
+                expect(result.and(other)).toBe(other)
+            })
+        })
+
+        describe('andThen', () => {
+            it('should return the result of the provided function', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+                    , other = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.andThen(() => other)).toBe(other)
+            })
+        })
+
+        describe('or', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.or(Ok(1))).toBe(result)
+            })
+        })
+
+        describe('orElse', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.orElse(() => Ok(1))).toBe(result)
+            })
+        })
+
+        describe('orElseErr', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.orElseErr(() => Err(1))).toBe(result)
+            })
+        })
+
+        describe('ok', () => {
+            it('should return Some wrapping the value', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act
+                const option = result.ok()
+
+                // Assert
+                expect(option.match(v => v, () => 1)).toBe(0)
+            })
+        })
+
+        describe('err', () => {
+            it('should return None', () => {
+                // Arrange
+                const result = Ok<number, string>(0)
+
+                // Act & Assert
+                expect(result.err()).toBe(None)
+            })
+        })
+
+        describe('transpose', () => {
+            it('should map Ok(None) to None', () => {
+                // Arrange
+                const result: Result<Option<number>, string> = Ok(None)
+
+                // Act & Assert
+                expect(result.transpose()).toBe(None)
+            })
+
+            it('should map Ok(Some(v)) to Some(Ok(v))', () => {
+                // Arrange
+                const result: Result<Option<number>, string> = Ok(Some(0))
+
+                // Act
+                const transposed = result.transpose()
+
+                // Assert
+                expect(transposed.match(r => r.match(v => v, () => 1), () => 2)).toBe(0)
+            })
+        })
+
+        describe('isOk', () => {
+            it('should return true', () => {
+                // Arrange
+                const result = Ok(0)
+
+                // Act & Assert
+                expect(result.isOk).toBe(true)
+                expect(result.isErr).toBe(false)
+            })
+        })
+    })
+
+    describe('Err', () => {
+
+        describe('match', () => {
+            it('should return the "Err" value', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act
+                const matched = result.match(_ => "This shouldn't run", e => e)
+
+                // Assert
+                expect(matched).toBe('error')
+            })
+        })
+
+        describe('getValueOrDefault', () => {
+            it('should return the default value', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.getValueOrDefault(1)).toBe(1)
+            })
+        })
+
+        describe('getValueOrCompute', () => {
+            it('should return the value computed from the error', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.getValueOrCompute(e => e.length)).toBe(5)
+            })
+        })
+
+        describe('mapOrDefault', () => {
+            it('should return the default value', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.mapOrDefault(v => v.toString(), 'default')).toBe('default')
+            })
+        })
+
+        describe('mapOrCompute', () => {
+            it('should return the value computed from the error', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.mapOrCompute(v => v.toString(), e => e.toUpperCase())).toBe('ERROR')
+            })
+        })
+
+        describe('map', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.map(v => v + 1)).toBe(result)
+            })
+        })
+
+        describe('mapErr', () => {
+            it('should correctly transform the error', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act
+                const mapped = result.mapErr(e => e.length)
+
+                // Assert
+                expect(mapped.match(() => 0, e => e)).toBe(5)
+            })
+        })
+
+        describe('and', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.and(Ok(1))).toBe(result)
+            })
+        })
+
+        describe('andThen', () => {
+            it('should return itself', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.andThen(v => Ok(v + 1))).toBe(result)
+            })
+        })
+
+        describe('or', () => {
+            it('should return the provided result', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+                    , other = Ok<number, string>(1)
+
+                // Act & Assert
+                expect(result.or(other)).toBe(other)
+            })
+        })
+
+        describe('orElse', () => {
+            it('should return the result of the provided function', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+                    , other = Ok<number, string>(1)
+
+                // Act & Assert
+                expect(result.orElse(() => other)).toBe(other)
+            })
+        })
+
+        describe('orElseErr', () => {
+            it('should pass the error to the provided function', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act
+                const recovered = result.orElseErr(e => Ok(e.length))
+
+                // Assert
+                expect(recovered.getValueOrDefault(0)).toBe(5)
+            })
+        })
+
+        describe('ok', () => {
+            it('should return None', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.ok()).toBe(None)
+            })
+        })
+
+        describe('err', () => {
+            it('should return Some wrapping the error', () => {
+                // Arrange
+                const result = Err<string, number>('error')
+
+                // Act & Assert
+                expect(result.err().getValueOrDefault('')).toBe('error')
+            })
+        })
+
+        describe('transpose', () => {
+            it('should map Err(e) to Some(Err(e))', () => {
+                // Arrange
+                const result: Result<Option<number>, string> = Err('error')
+
+                // Act
+                const transposed = result.transpose()
+
+                // Assert
+                expect(transposed.match(r => r.match(() => '', e => e), () => '')).toBe('error')
+            })
+        })
+
+        describe('isErr', () => {
+            it('should return true', () => {
+                // Arrange
+                const result = Err('error')
+
+                // Act & Assert
+                expect(result.isErr).toBe(true)
+                expect(result.isOk).toBe(false)
+            })
+        })
+    })
+
+    describe('Option interop', () => {
+
+        describe('okOr', () => {
+            it('should map Some to Ok', () => {
+                // Arrange
+                const option = Some(0)
+
+                // Act
+                const result = option.okOr('error')
+
+                // Assert
+                expect(result.isOk).toBe(true)
+                expect(result.getValueOrDefault(1)).toBe(0)
+            })
+
+            it('should map None to Err', () => {
+                // Arrange
+                const option: Option<number> = None
+
+                // Act
+                const result = option.okOr('error')
+
+                // Assert
+                expect(result.err().getValueOrDefault('')).toBe('error')
+            })
+        })
+
+        describe('okOrElse', () => {
+            it('should not compute the error for Some', () => {
+                // Arrange
+                const option = Some(0)
+                    , computeFn = jest.fn(() => 'error')
+
+                // Act
+                const result = option.okOrElse(computeFn)
+
+                // Assert
+                expect(result.isOk).toBe(true)
+                expect(computeFn).not.toHaveBeenCalled()
+            })
+
+            it('should map None to Err of the computed error', () => {
+                // Arrange
+                const option: Option<number> = None
+
+                // Act
+                const result = option.okOrElse(() => 'error')
+
+                // Assert
+                expect(result.err().getValueOrDefault('')).toBe('error')
+            })
+        })
+
+        describe('transpose', () => {
+            it('should map None to Ok(None)', () => {
+                // Arrange
+                const option: Option<Result<number, string>> = None
+
+                // Act
+                const transposed = option.transpose()
+
+                // Assert
+                expect(transposed.getValueOrDefault(Some(1))).toBe(None)
+            })
+
+            it('should map Some(Ok(v)) to Ok(Some(v))', () => {
+                // Arrange
+                const option = Some(Ok<number, string>(0))
+
+                // Act
+                const transposed = option.transpose()
+
+                // Assert
+                expect(transposed.getValueOrDefault(None).getValueOrDefault(1)).toBe(0)
+            })
+
+            it('should map Some(Err(e)) to Err(e)', () => {
+                // Arrange
+                const option = Some(Err<string, number>('error'))
+
+                // Act
+                const transposed = option.transpose()
+
+                // Assert
+                expect(transposed.err().getValueOrDefault('')).toBe('error')
+            })
+        })
+    })
+})
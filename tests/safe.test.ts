@@ -0,0 +1,146 @@
+import { Some, None, safe } from '../index'
+import fc from "fast-check"
+
+describe('safe standard library wrappers', () => {
+
+  describe('find and findLast', () => {
+    it('should return the first and last matching items', () => {
+      const items = [1, 2, 3, 4]
+
+      expect(safe.find(items, x => x % 2 === 0).getValueOrDefault(0)).toBe(2)
+      expect(safe.findLast(items, x => x % 2 === 0).getValueOrDefault(0)).toBe(4)
+      expect(safe.find(items, x => x > 4)).toBe(None)
+      expect(safe.findLast(items, x => x > 4)).toBe(None)
+    })
+
+    it('should return Some for found undefined items', () => {
+      expect(safe.find([1, undefined], x => x === undefined).isSome).toBe(true)
+      expect(safe.findLast([undefined, 1], x => x === undefined).isSome).toBe(true)
+    })
+
+    it('should narrow with type guards', () => {
+      const found = safe.find<string | number, string>([1, 'a'], (x): x is string => typeof x === 'string')
+
+      expect(found.map(x => x.toUpperCase()).getValueOrDefault('')).toBe('A')
+    })
+  })
+
+  describe('at, first and last', () => {
+    it('should behave like Array.prototype.at', () => {
+      fc.assert(fc.property(fc.array(fc.integer()), fc.integer({ min: -20, max: 20 }), (items, index) => {
+        const position = index < 0 ? items.length + index : index
+        expect(safe.at(items, index).isSome).toBe(position >= 0 && position < items.length)
+        expect(safe.at(items, index).getValueOrDefault(NaN)).toBe(position in items ? items[position] : NaN)
+      }))
+    })
+
+    it('should return None for fractional indexes', () => {
+      expect(safe.at([1, 2], 0.5)).toBe(None)
+    })
+
+    it('should return the first and last items', () => {
+      expect(safe.first([1, 2, 3]).getValueOrDefault(0)).toBe(1)
+      expect(safe.last([1, 2, 3]).getValueOrDefault(0)).toBe(3)
+      expect(safe.first([])).toBe(None)
+      expect(safe.last([])).toBe(None)
+    })
+  })
+
+  describe('indexOf', () => {
+    it('should return the index of the item', () => {
+      expect(safe.indexOf(['a', 'b', 'a'], 'a', 1).getValueOrDefault(-1)).toBe(2)
+      expect(safe.indexOf(['a'], 'b')).toBe(None)
+    })
+  })
+
+  describe('mapGet', () => {
+    it('should check whether the map has the key', () => {
+      const map = new Map<string, number | undefined>([['a', 1], ['b', undefined]])
+
+      expect(safe.mapGet(map, 'a').getValueOrDefault(0)).toBe(1)
+      expect(safe.mapGet(map, 'b').isSome).toBe(true)
+      expect(safe.mapGet(map, 'c')).toBe(None)
+    })
+  })
+
+  describe('getOwn', () => {
+    it('should only return own properties', () => {
+      const record: Record<string, number> = { a: 1 }
+
+      expect(safe.getOwn(record, 'a').getValueOrDefault(0)).toBe(1)
+      expect(safe.getOwn(record, 'b')).toBe(None)
+      expect(safe.getOwn(record, 'toString')).toBe(None)
+      expect(safe.getOwn(Object.create(record) as Record<string, number>, 'a')).toBe(None)
+    })
+  })
+
+  describe('number parsing', () => {
+    it('should parse numbers', () => {
+      expect(safe.parseInt('42px').getValueOrDefault(0)).toBe(42)
+      expect(safe.parseInt('ff', 16).getValueOrDefault(0)).toBe(255)
+      expect(safe.parseFloat('1.5e3').getValueOrDefault(0)).toBe(1500)
+      expect(safe.parseNumber(' 0x10 ').getValueOrDefault(0)).toBe(16)
+    })
+
+    it('should return None for text that is not a number', () => {
+      expect(safe.parseInt('px')).toBe(None)
+      expect(safe.parseFloat('')).toBe(None)
+      expect(safe.parseNumber('42px')).toBe(None)
+      expect(safe.parseNumber('  ')).toBe(None)
+    })
+  })
+
+  describe('parseJSON', () => {
+    it('should parse valid JSON, including null', () => {
+      expect(safe.parseJSON('{"a":[1]}').getValueOrDefault(undefined)).toEqual({ a: [1] })
+      expect(safe.parseJSON('null').isSome).toBe(true)
+    })
+
+    it('should return None for invalid JSON', () => {
+      expect(safe.parseJSON('{')).toBe(None)
+    })
+
+    it('should not swallow errors thrown by the reviver', () => {
+      expect(() => safe.parseJSON('1', () => { throw new RangeError('reviver') })).toThrow(RangeError)
+    })
+  })
+
+  describe('parseURL', () => {
+    it('should parse absolute and relative URLs', () => {
+      expect(safe.parseURL('https://example.com/a?b=1').map(url => url.pathname).getValueOrDefault('')).toBe('/a')
+      expect(safe.parseURL('../c', 'https://example.com/a/b').map(url => url.href).getValueOrDefault('')).toBe('https://example.com/c')
+    })
+
+    it('should return None for invalid URLs', () => {
+      expect(safe.parseURL('not a url')).toBe(None)
+    })
+  })
+
+  describe('parseDate', () => {
+    it('should parse dates and timestamps', () => {
+      expect(safe.parseDate('2020-01-02T00:00:00Z').map(date => date.getTime()).getValueOrDefault(0)).toBe(Date.UTC(2020, 0, 2))
+      expect(safe.parseDate(0).isSome).toBe(true)
+    })
+
+    it('should return None for invalid dates', () => {
+      expect(safe.parseDate('yesterday')).toBe(None)
+    })
+  })
+
+  describe('execGroups', () => {
+    const date = /(?<year>\d{4})-(?<month>\d{2})(?:-(?<day>\d{2}))?/
+
+    it('should return the named groups of a match', () => {
+      expect(safe.execGroups(date, 'on 2020-01').getValueOrDefault({})).toEqual({ year: '2020', month: '01', day: undefined })
+      expect(safe.execGroups(/\d+/, 'a1').getValueOrDefault({ x: 'x' })).toEqual({})
+    })
+
+    it('should return None when there is no match', () => {
+      expect(safe.execGroups(date, 'never')).toBe(None)
+    })
+  })
+
+  it('should wrap values with Some', () => {
+    expect(safe.first([Some(1)]).flatten().getValueOrDefault(0)).toBe(1)
+  })
+})
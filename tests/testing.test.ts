@@ -0,0 +1,82 @@
+import { Some, None, Option } from '../index'
+import { optionMatchers, someArb, noneArb, optionArb, functorIdentityLaw, functorCompositionLaw, monadLeftIdentityLaw, monadRightIdentityLaw, monadAssociativityLaw } from '../testing'
+import fc from "fast-check"
+
+expect.extend(optionMatchers)
+
+const parse = (text: string): Option<number> => {
+  const value = parseInt(text, 10)
+  return isNaN(value) ? None : Some(value)
+}
+
+describe('Option testing helpers', () => {
+
+  describe('matchers', () => {
+    it('should match Some and None', () => {
+      expect(Some(5)).toBeSome()
+      expect(None).not.toBeSome()
+      expect(None).toBeNone()
+      expect(Some(5)).not.toBeNone()
+      expect(5).not.toBeSome()
+    })
+
+    it('should compare the value of Some recursively', () => {
+      expect(Some({ a: [1] })).toBeSomeWith({ a: [1] })
+      expect(Some(5)).not.toBeSomeWith(6)
+      expect(None).not.toBeSomeWith(undefined)
+    })
+
+    it('should compare Options recursively', () => {
+      expect(Some(Some({ a: 1 }))).toEqualOption(Some(Some({ a: 1 })))
+      expect(None).toEqualOption(None)
+      expect(Some(1)).not.toEqualOption(None)
+    })
+
+    it('should print Options in failure messages', () => {
+      expect(() => expect(None).toBeSomeWith(5)).toThrow(/Expected: "Some\(5\)"\nReceived: "None"/)
+      expect(() => expect(Some(Some('a'))).toBeNone()).toThrow(/Received: Some\(Some\("a"\)\)/)
+      expect(() => expect(Some(1)).toEqualOption(Some(2))).toThrow(/Expected: "Some\(2\)"\nReceived: "Some\(1\)"/)
+      expect(() => expect(Some(1)).not.toBeSome()).toThrow(/Expected: not Some\(_\)/)
+    })
+  })
+
+  describe('arbitraries', () => {
+    it('should generate Some values with someArb', () => {
+      fc.assert(fc.property(someArb(fc.integer()), option => {
+        expect(option).toBeSome()
+      }))
+    })
+
+    it('should generate None with noneArb', () => {
+      fc.assert(fc.property(noneArb, option => {
+        expect(option).toBeNone()
+      }))
+    })
+
+    it('should generate both variants with optionArb', () => {
+      const options = fc.sample(optionArb(fc.integer(), 2), 200)
+
+      expect(options.some(option => option.isSome)).toBe(true)
+      expect(options.some(option => option.isNone)).toBe(true)
+    })
+  })
+
+  describe('laws', () => {
+    it('should hold for the Option implementation', () => {
+      const options = optionArb(fc.string())
+
+      fc.assert(functorIdentityLaw(options))
+      fc.assert(functorCompositionLaw(options, text => text.length, length => length * 2))
+      fc.assert(monadLeftIdentityLaw(fc.string(), parse))
+      fc.assert(monadRightIdentityLaw(options))
+      fc.assert(monadAssociativityLaw(options, parse, value => value % 2 === 0 ? Some(value / 2) : None))
+    })
+
+    it('should fail for functions breaking them', () => {
+      let calls = 0
+      const impure = (value: number) => Some(value + calls++)
+
+      expect(() => fc.assert(monadLeftIdentityLaw(fc.integer(), impure))).toThrow()
+    })
+  })
+})
@@ -0,0 +1,53 @@
+import { None, tryCatch, tryCatchAsync } from '../index'
+
+const fail = (error: unknown) => () => { throw error }
+
+describe('Option exception capturing constructors', () => {
+
+  describe('tryCatch', () => {
+    it('should wrap the return value in Some', () => {
+      expect(tryCatch(() => 1).getValueOrDefault(0)).toBe(1)
+    })
+
+    it.each([null, undefined])('should return None when the function returns %p', value => {
+      expect(tryCatch(() => value)).toBe(None)
+    })
+
+    it('should return None when the function throws', () => {
+      expect(tryCatch(fail(new Error('boom')))).toBe(None)
+    })
+
+    it('should only catch errors matching the provided predicate', () => {
+      const isBoom = (error: unknown) => error instanceof Error && error.message === 'boom'
+
+      expect(tryCatch(fail(new Error('boom')), isBoom)).toBe(None)
+      expect(() => tryCatch(fail(new Error('other')), isBoom)).toThrow('other')
+    })
+
+    it('should only catch instances of the provided error class', () => {
+      expect(tryCatch(() => JSON.parse('{'), SyntaxError)).toBe(None)
+      expect(() => tryCatch(fail(new TypeError('type')), SyntaxError)).toThrow(TypeError)
+      expect(() => tryCatch(fail('not an error'), Error)).toThrow()
+    })
+  })
+
+  describe('tryCatchAsync', () => {
+    it('should wrap the resolved value in Some', async () => {
+      expect(await tryCatchAsync(() => Promise.resolve(1)).getValueOrDefault(0)).toBe(1)
+    })
+
+    it('should return None when the promise resolves to null', async () => {
+      expect(await tryCatchAsync(() => Promise.resolve(null))).toBe(None)
+    })
+
+    it('should return None when the function rejects or throws synchronously', async () => {
+      expect(await tryCatchAsync(() => Promise.reject(new Error('boom')))).toBe(None)
+      expect(await tryCatchAsync(fail(new Error('boom')))).toBe(None)
+    })
+
+    it('should reject with errors not matching the provided matcher', async () => {
+      await expect(tryCatchAsync(() => Promise.reject(new TypeError('type')), RangeError).toPromise()).rejects.toThrow(TypeError)
+      await expect(tryCatchAsync(() => Promise.reject(new RangeError('range')), RangeError).toPromise()).resolves.toBe(None)
+    })
+  })
+})
@@ -0,0 +1,18 @@
+/**
+ * Compile-time assertions, checked by `tsc -p tests/types`.
+ */
+
+/**
+ * `true` if both types are identical, otherwise `false`.
+ */
+export type Equal<A, B> = (<X>() => X extends A ? 1 : 2) extends (<X>() => X extends B ? 1 : 2) ? true : false
+
+/**
+ * Fails to compile unless the type is `true`.
+ */
+export type Expect<T extends true> = T
+
+/**
+ * Fails to compile unless the value is assignable to the type.
+ */
+export function expectAssignable<T>(_value: T): void { }
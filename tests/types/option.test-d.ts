@@ -0,0 +1,88 @@
+import { Option, SomeOption, NoneOption, NoneConstant, Some, None, Result, AsyncOption, fromValue, labelNone } from '../../index'
+import { Equal, Expect, expectAssignable } from './expect'
+
+type Animal = { name: string }
+type Dog = Animal & { bark: () => void }
+
+declare const dog: Option<Dog>
+declare const num: Option<number>
+declare const text: Option<string>
+
+// `None` is not `any`, so mistakes do not slip through
+export type NoneTypes = [
+    Expect<Equal<typeof None, NoneConstant>>,
+    Expect<Equal<ReturnType<typeof labelNone>, NoneConstant>>,
+    Expect<Equal<ReturnType<typeof None.or<string>>, Option<string>>>,
+    Expect<Equal<ReturnType<typeof None.unwrap>, never>>
+]
+
+expectAssignable<Option<number>>(None)
+expectAssignable<Option<number>>(None.or(num))
+// @ts-expect-error - `None.or(Some('a'))` is an `Option<string>`
+expectAssignable<Option<number>>(None.or(Some('a')))
+// @ts-expect-error - `None.and(Some('a'))` is an `Option<string>`
+expectAssignable<Option<number>>(None.and(Some('a')))
+// @ts-expect-error - the value of `None` is never read
+expectAssignable<number>(None.value)
+
+// `Option` is covariant, like a readonly value
+expectAssignable<Option<Animal>>(dog)
+expectAssignable<Option<Animal>>(Some<Dog>({ name: 'Rex', bark: () => undefined }))
+expectAssignable<Option<number | string>>(num)
+expectAssignable<Result<Animal, string>>(dog.okOr('missing'))
+expectAssignable<AsyncOption<Animal>>(dog.toAsync())
+// @ts-expect-error - an `Option<Animal>` may not hold a `Dog`
+expectAssignable<Option<Dog>>(dog.map((animal): Animal => animal))
+
+// Defaults and alternatives must have the value type, except on `None` which has no value of its own
+// @ts-expect-error - a `string` default for an `Option<number>`
+num.getValueOrDefault('none')
+// @ts-expect-error - a `string` computed for an `Option<number>`
+num.getValueOrCompute(() => 'none')
+// @ts-expect-error - an `Option<string>` alternative for an `Option<number>`
+num.or(text)
+// @ts-expect-error - an `Option<string>` alternative for an `Option<number>`
+num.orElse(() => text)
+// @ts-expect-error - an `Option<string>` alternative for an `Option<number>`
+num.xor(text)
+// @ts-expect-error - a `string` default for an `Option<number>`
+num.unwrapOr('none')
+// @ts-expect-error - a `string` default for a `Result<number, string>`
+num.okOr('missing').getValueOrDefault('none')
+// @ts-expect-error - a `string` default for an `AsyncOption<number>`
+num.toAsync().getValueOrDefault('none')
+
+const animals: Option<Animal> = dog
+
+const defaulted = num.getValueOrDefault(0)
+    , animal = animals.getValueOrDefault({ name: 'Cat' })
+    , noneDefaulted = None.getValueOrDefault('none')
+    , noneAlternative = None.or(text)
+
+export type Inferred = [
+    Expect<Equal<typeof defaulted, number>>,
+    Expect<Equal<typeof animal, Animal>>,
+    Expect<Equal<typeof noneDefaulted, 'none'>>,
+    Expect<Equal<typeof noneAlternative, Option<string>>>
+]
+
+// Narrowing
+if (num.isSome) {
+    expectAssignable<SomeOption<number>>(num)
+    expectAssignable<number>(num.value)
+} else {
+    expectAssignable<NoneOption<number>>(num)
+}
+
+// Constructors
+export type Constructors = [
+    Expect<Equal<ReturnType<typeof Some<number>>, Option<number>>>,
+    Expect<Equal<ReturnType<typeof fromValue<string>>, Option<string>>>
+]
+
+// Nested Options
+declare const nested: Option<Option<number>>
+declare const pair: Option<[number, string]>
+
+expectAssignable<Option<number>>(nested.flatten())
+expectAssignable<[Option<number>, Option<string>]>(pair.unzip())
@@ -0,0 +1,65 @@
+import {
+    Option, NoneOption, Some, None, Any,
+    UnwrapOption, DeepUnwrapOption, OptionValues, IsOption, OptionalKeysToOption, FlattenOption,
+    OptionFields, NullableFields, all, matchAll, toOptionFields
+} from '../../index'
+import { Equal, Expect, expectAssignable } from './expect'
+
+export type Unwrapping = [
+    Expect<Equal<UnwrapOption<Option<number>>, number>>,
+    Expect<Equal<UnwrapOption<Option<number | null>>, number | null>>,
+    Expect<Equal<UnwrapOption<NoneOption>, never>>,
+    Expect<Equal<DeepUnwrapOption<Option<Option<Option<string>>>>, string>>,
+    Expect<Equal<DeepUnwrapOption<string>, string>>,
+    Expect<Equal<FlattenOption<Option<Option<number>>>, Option<number>>>,
+    Expect<Equal<FlattenOption<Option<number>>, Option<number>>>
+]
+
+export type Checks = [
+    Expect<Equal<IsOption<Option<number>>, true>>,
+    Expect<Equal<IsOption<NoneOption>, true>>,
+    Expect<Equal<IsOption<number>, false>>,
+    Expect<Equal<IsOption<Option<number> | number>, false>>,
+    Expect<Equal<IsOption<never>, false>>
+]
+
+export type Tuples = [
+    Expect<Equal<OptionValues<[Option<number>, Option<string>]>, [number, string]>>,
+    Expect<Equal<OptionValues<Option<boolean>[]>, boolean[]>>
+]
+
+export type OptionalKeys = [
+    Expect<Equal<OptionalKeysToOption<{ id: number, name?: string }>, { id: number, name: Option<string> }>>,
+    Expect<Equal<OptionalKeysToOption<{ note: string | undefined }>, { note: string | undefined }>>
+]
+
+export type Fields = [
+    Expect<Equal<OptionFields<{ name?: string | null, age: number }>, { name?: Option<string>, age: Option<number> }>>,
+    Expect<Equal<OptionFields<{ name?: string | null }, { name: 'value' }>, { name: Option<string> }>>,
+    Expect<Equal<NullableFields<{ name: Option<string>, age: number }>, { name: string | null, age: number }>>,
+    Expect<Equal<NullableFields<{ name: Option<string>, age: number }, 'omit'>, { age: number, name?: string }>>
+]
+
+declare const num: Option<number>
+declare const text: Option<string>
+
+const combined = all([num, text])
+    , converted = toOptionFields({ nickname: null as string | null }, { nickname: 'nullable' })
+
+export type Inferred = [
+    Expect<Equal<typeof combined, Option<[number, string]>>>,
+    Expect<Equal<typeof converted, { nickname: Option<string> }>>
+]
+
+// `matchAll` checks exhaustiveness, with `None` telling its arms apart from `Some(value)` arms
+expectAssignable<number | string>(matchAll([num, text])
+    .with([Some, Any], n => n)
+    .with([None, Some], (_, t) => t)
+    .with([None, None], () => 0)
+    .exhaustive())
+
+// @ts-expect-error - `[None, None]` is not handled
+matchAll([num, text]).with([Some, Any], () => 0).with([None, Some], () => 0).exhaustive()
+
+// @ts-expect-error - `Some(0)` does not handle every `Some`
+matchAll([num]).with([Some(0)], () => 0).with([None], () => 0).exhaustive()
@@ -1,4 +1,4 @@
-import { None, fromValue, fromValueConditional, fromNullable, fromUndefinable, createOptionFactory } from '../index'
+import { Some, None, Option, fromValue, fromValueConditional, fromNullable, fromUndefinable, createOptionFactory, isSome, isNone, isOption, isSomeValue, isNoneValue, all, equals, gen, labelNone, enableOptionDiagnostics, disableOptionDiagnostics } from '../index'
 import fc from "fast-check"
 
 describe('Option utility functions', () => {
@@ -75,4 +75,102 @@ describe('Option utility functions', () => {
       )
     })
   })
-})
\ No newline at end of file
+
+  describe('isSome', () => {
+    it('should return true and narrow to the Some variant for Some', () => {
+      fc.assert(
+        fc.property(fc.anything(), value => {
+          const option = fromValueConditional(value, _ => false)
+          expect(isSome(option) && option.value).toBe(value)
+        })
+      )
+    })
+
+    it('should return false for None', () => {
+      expect(isSome(None)).toBe(false)
+    })
+  })
+
+  describe('isNone', () => {
+    it('should return true for None', () => {
+      expect(isNone(None)).toBe(true)
+    })
+
+    it('should return false for Some', () => {
+      expect(isNone(Some(0))).toBe(false)
+    })
+  })
+
+  describe('isOption', () => {
+    it('should return true for Some and None', () => {
+      fc.assert(
+        fc.property(fc.anything(), value => {
+          expect(isOption(Some(value))).toBe(true)
+        })
+      )
+      expect(isOption(None)).toBe(true)
+    })
+
+    it('should return false for other values', () => {
+      fc.assert(
+        fc.property(fc.anything(), value => {
+          expect(isOption(value)).toBe(false)
+        })
+      )
+      expect(isOption({ isSome: true, isNone: false, value: 1, match: () => 1 })).toBe(false)
+    })
+
+    it('should recognize labelled None values', () => {
+      enableOptionDiagnostics()
+      try {
+        expect(isNoneValue(labelNone('missing'))).toBe(true)
+      } finally {
+        disableOptionDiagnostics()
+      }
+    })
+  })
+
+  describe('isSomeValue and isNoneValue', () => {
+    it('should narrow unknown values', () => {
+      const value: unknown = Some(1)
+
+      expect(isSomeValue(value) && value.value).toBe(1)
+      expect(isNoneValue(value)).toBe(false)
+      expect(isSomeValue(None)).toBe(false)
+      expect(isNoneValue(None)).toBe(true)
+      expect(isSomeValue(1)).toBe(false)
+      expect(isNoneValue(null)).toBe(false)
+    })
+  })
+
+  describe('Options from another copy of the library', () => {
+    let other: typeof import('../index')
+    jest.isolateModules(() => {
+      other = require('../index')
+    })
+
+    it('should be recognized by the guards', () => {
+      expect(other.None).not.toBe(None)
+      expect(isOption(other.Some(1))).toBe(true)
+      expect(isSomeValue(other.Some(1))).toBe(true)
+      expect(isNoneValue(other.None)).toBe(true)
+    })
+
+    it('should be accepted by the combinators', () => {
+      const foreignSome: Option<number> = other.Some(2)
+        , foreignNone: Option<number> = other.None
+
+      expect(Some(1).and(foreignSome).getValueOrDefault(0)).toBe(2)
+      expect(None.or(foreignSome).getValueOrDefault(0)).toBe(2)
+      expect(Some(1).andThen(_ => foreignNone).isNone).toBe(true)
+      expect(Some(1).zip(foreignSome).getValueOrDefault([0, 0])).toEqual([1, 2])
+      expect(Some(1).zipWith(foreignNone, (a, b) => a + b).isNone).toBe(true)
+      expect(Some(1).xor(foreignSome).isNone).toBe(true)
+      expect(Some(foreignSome).flatten().getValueOrDefault(0)).toBe(2)
+      expect(all([Some(1), foreignSome]).getValueOrDefault([0, 0])).toEqual([1, 2])
+      expect(equals(Some(Some(2)), Some(foreignSome), 'deep')).toBe(true)
+      expect(gen(function* () { return (yield* Some(1)) + (yield* foreignSome) }).getValueOrDefault(0)).toBe(3)
+      expect(gen(function* () { return yield* foreignNone }).isNone).toBe(true)
+    })
+  })
+})
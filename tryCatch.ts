@@ -0,0 +1,51 @@
+import { Option, fromValue } from "./index"
+import { labelNone } from "./diagnostics"
+import { AsyncOption, Awaitable, toAsyncOption } from "./asyncOption"
+
+/**
+ * Selects which thrown errors are turned into `None` - either a predicate, or an error class matched with `instanceof`.
+ */
+export type ErrorMatcher = ((error: unknown) => boolean) | (new (...args: any[]) => Error)
+
+/**
+ * Calls the provided function and wraps its return value in an `Option` with `fromValue` semantics,
+ * so `null` and `undefined` become `None`. A thrown error also becomes `None`.
+ *
+ * @param fn - The function to call.
+ * @param matches - Restricts which errors become `None`, errors it does not match are rethrown. Defaults to all errors.
+ * @returns `Some` wrapping the return value, or `None` if it is `null`, `undefined` or a matched error was thrown.
+ */
+export function tryCatch<T>(fn: () => T, matches?: ErrorMatcher): Option<T> {
+    try {
+        return fromValue(fn())
+    } catch (error) {
+        return catchError(error, matches)
+    }
+}
+
+/**
+ * Like `tryCatch`, but for functions returning a promise - the resolved value is wrapped with `fromValue` semantics,
+ * and both synchronous throws and rejections become `None`.
+ *
+ * @param fn - The function to call.
+ * @param matches - Restricts which errors become `None`, errors it does not match reject the result. Defaults to all errors.
+ * @returns An `AsyncOption` of the resolved value, or of `None` if it is `null`, `undefined` or a matched error was thrown.
+ */
+export function tryCatchAsync<T>(fn: () => Awaitable<T>, matches?: ErrorMatcher): AsyncOption<T> {
+    return toAsyncOption(
+        new Promise<T>(resolve => resolve(fn()))
+            .then(fromValue, (error: unknown) => catchError<T>(error, matches))
+    )
+}
+
+function catchError<T>(error: unknown, matches: ErrorMatcher | undefined): Option<T> {
+    if (matches === undefined || (isErrorClass(matches) ? error instanceof matches : matches(error))) {
+        return labelNone('tryCatch: an error was thrown')
+    }
+
+    throw error
+}
+
+function isErrorClass(matches: ErrorMatcher): matches is new (...args: any[]) => Error {
+    return matches === Error || matches.prototype instanceof Error
+}
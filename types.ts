@@ -0,0 +1,54 @@
+import { Option } from "./index"
+
+/**
+ * The type of the value of an `Option` type.
+ * @typeparam O The `Option` type.
+ *
+ * @example
+ * type Id = UnwrapOption<Option<number>>  // number
+ */
+export type UnwrapOption<O extends Option<unknown>> = O extends Option<infer T> ? T : never
+
+/**
+ * The type of the innermost value of nested `Option` types. Types that are not an `Option` are left as they are.
+ * @typeparam O The possibly nested `Option` type.
+ *
+ * @example
+ * type Id = DeepUnwrapOption<Option<Option<number>>>  // number
+ */
+export type DeepUnwrapOption<O> = O extends Option<infer T> ? DeepUnwrapOption<T> : O
+
+/**
+ * `true` if the type is an `Option` type, otherwise `false`.
+ * @typeparam T The type to check.
+ */
+export type IsOption<T> = [T] extends [never] ? false
+    : [T] extends [Option<unknown>] ? true
+    : false
+
+/**
+ * Turns the optional properties of an object type into required `Option` properties, leaving the required properties as they are.
+ * @typeparam T The object type.
+ *
+ * @example
+ * type User = OptionalKeysToOption<{ id: number, name?: string }>  // { id: number, name: Option<string> }
+ */
+export type OptionalKeysToOption<T> = Simplify<
+    { [K in keyof T as K extends OptionalKeys<T> ? never : K]: T[K] }
+    & { [K in keyof T as K extends OptionalKeys<T> ? K : never]-?: Option<Exclude<T[K], undefined>> }
+>
+
+/**
+ * The type `flatten` returns for an `Option` of an `Option`. Types with a single level of `Option` are left as they are.
+ * @typeparam O The `Option` type.
+ *
+ * @example
+ * type Id = FlattenOption<Option<Option<number>>>  // Option<number>
+ */
+export type FlattenOption<O extends Option<unknown>> = [UnwrapOption<O>] extends [Option<infer T>] ? Option<T> : O
+
+type OptionalKeys<T> = {
+    [K in keyof T]-?: {} extends Pick<T, K> ? K : never
+}[keyof T]
+
+type Simplify<T> = { [K in keyof T]: T[K] }